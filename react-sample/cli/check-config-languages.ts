@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import { RefappAtsConfig, refappAtsConfigSchema } from "../src/lib/ats-types";
+import {
+  compareConfigLanguages,
+  ConfigConsistencyIssue,
+  LanguageConfig,
+} from "../src/lib/config-consistency";
+import { toIssues } from "../src/lib/http-handlers";
+
+/**
+ * Checks that the configs for different languages match:
+ *
+ * npm run check-config-languages -- [--json] <lang>=<file>...
+ * npm run check-config-languages -- [--json] --endpoint <config url> <lang>...
+ *
+ * With --endpoint the config is fetched once per language, with lang set in
+ * the query and the secrets from REFAPP_ATS_SECRET and REFAPP_CUSTOMER_SECRET.
+ * The first language is the one the others are compared with. Prints one line
+ * per issue, or the issues as JSON with --json. Exits with 1 when there are
+ * errors and 2 when a config cannot be read or is invalid.
+ */
+
+const parseConfig = (json: unknown, source: string): RefappAtsConfig => {
+  const result = refappAtsConfigSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      [`Invalid config from ${source}`, ...toIssues(result.error)].join("\n  ")
+    );
+  }
+  return result.data;
+};
+
+const readConfig = (arg: string): LanguageConfig => {
+  const index = arg.indexOf("=");
+  if (index <= 0) {
+    throw new Error(`Expected <lang>=<file> but got "${arg}"`);
+  }
+  const file = arg.slice(index + 1);
+  return {
+    lang: arg.slice(0, index),
+    config: parseConfig(JSON.parse(fs.readFileSync(file, "utf8")), file),
+  };
+};
+
+const fetchConfig = async (
+  endpoint: string,
+  lang: string
+): Promise<LanguageConfig> => {
+  const url = new URL(endpoint);
+  url.searchParams.set("lang", lang);
+  const response = await fetch(url, {
+    headers: {
+      "Authorization": `Bearer ${process.env.REFAPP_ATS_SECRET ?? ""}`,
+      "X-Provider-Key": process.env.REFAPP_CUSTOMER_SECRET ?? "",
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with status ${response.status}`);
+  }
+  return { lang, config: parseConfig(await response.json(), url.toString()) };
+};
+
+const formatIssue = ({
+  severity,
+  lang,
+  path,
+  message,
+  rule,
+}: ConfigConsistencyIssue) =>
+  `${severity.padEnd(7)} ${lang.padEnd(5)} ${path}  ${message} [${rule}]`;
+
+const main = async (args: ReadonlyArray<string>): Promise<number> => {
+  const json = args.includes("--json");
+  const endpointIndex = args.indexOf("--endpoint");
+  const endpoint = endpointIndex !== -1 ? args[endpointIndex + 1] : undefined;
+  const inputs = args.filter(
+    (arg, index) =>
+      arg !== "--json" &&
+      (endpointIndex === -1 ||
+        (index !== endpointIndex && index !== endpointIndex + 1))
+  );
+  if (inputs.length < 2 || (endpointIndex !== -1 && !endpoint)) {
+    console.error(
+      "Usage: check-config-languages [--json] <lang>=<file>...\n" +
+        "       check-config-languages [--json] --endpoint <config url> <lang>..."
+    );
+    return 2;
+  }
+  let configs: ReadonlyArray<LanguageConfig>;
+  try {
+    configs = endpoint
+      ? await Promise.all(inputs.map((lang) => fetchConfig(endpoint, lang)))
+      : inputs.map(readConfig);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    return 2;
+  }
+  const issues = compareConfigLanguages(configs);
+  if (json) {
+    console.log(JSON.stringify(issues, null, 2));
+  } else {
+    issues.forEach((issue) => console.log(formatIssue(issue)));
+    console.log(
+      `${issues.length} issues comparing ${configs
+        .map(({ lang }) => lang)
+        .join(", ")}`
+    );
+  }
+  return issues.some((issue) => issue.severity === "error") ? 1 : 0;
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
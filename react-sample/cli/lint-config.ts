@@ -0,0 +1,78 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ConfigLintIssue,
+  hasLintErrors,
+  lintConfig,
+} from "../src/lib/config-lint";
+
+/**
+ * Lints /config payloads:
+ *
+ * npm run lint-config -- [--json] <file or directory>...
+ *
+ * Directories are searched (not recursively) for .json files. Prints one line
+ * per issue, or a JSON object keyed on file name with --json. Exits with 1
+ * when any file has errors and 2 when a file cannot be read or parsed.
+ */
+
+type FileResult = Readonly<{
+  file: string;
+  issues: ReadonlyArray<ConfigLintIssue>;
+}>;
+
+const toFiles = (arg: string): ReadonlyArray<string> =>
+  fs.statSync(arg).isDirectory()
+    ? fs
+        .readdirSync(arg)
+        .filter((name) => name.endsWith(".json"))
+        .sort()
+        .map((name) => path.join(arg, name))
+    : [arg];
+
+const lintFile = (file: string): FileResult => ({
+  file,
+  issues: lintConfig(JSON.parse(fs.readFileSync(file, "utf8"))),
+});
+
+const formatIssue = ({ severity, path, message, rule }: ConfigLintIssue) =>
+  `  ${severity.padEnd(7)} ${path}  ${message} [${rule}]`;
+
+export const main = (args: ReadonlyArray<string>): number => {
+  const json = args.includes("--json");
+  const inputs = args.filter((arg) => arg !== "--json");
+  if (inputs.length === 0) {
+    console.error("Usage: lint-config [--json] <file or directory>...");
+    return 2;
+  }
+  let results: ReadonlyArray<FileResult>;
+  try {
+    results = inputs.flatMap(toFiles).map(lintFile);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    return 2;
+  }
+  if (json) {
+    console.log(
+      JSON.stringify(
+        Object.fromEntries(results.map(({ file, issues }) => [file, issues])),
+        null,
+        2
+      )
+    );
+  } else {
+    for (const { file, issues } of results) {
+      if (issues.length > 0) {
+        console.log(file);
+        issues.forEach((issue) => console.log(formatIssue(issue)));
+      }
+    }
+    const count = results.reduce((sum, { issues }) => sum + issues.length, 0);
+    console.log(`${count} issues in ${results.length} files`);
+  }
+  return results.some(({ issues }) => hasLintErrors(issues)) ? 1 : 0;
+};
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { z } from "zod";
+import { refappAtsConfigSchema, RefappAtsConfig } from "../src/lib/ats-types";
+import { RequestHandler } from "../src/lib/http-handlers";
+import {
+  createMockRefapp,
+  mockRefappScenarioValues,
+} from "../src/lib/mock-refapp";
+import { createResultsSink } from "../src/lib/results-sink";
+
+/**
+ * Local stand-in for a Refapp instance, for running the sample app and
+ * integration tests without network access. Configured with environment
+ * variables:
+ *
+ * PORT (default 4000), MOCK_ATS_SECRET, MOCK_CUSTOMER_SECRET,
+ * MOCK_SCENARIO (one of mockRefappScenarioValues),
+ * MOCK_CONFIG_EXAMPLES (defaults to the config-examples directory),
+ * MOCK_UPDATE_TOKEN (Bearer token for update-url calls, none by default),
+ * MOCK_REQUIRE_SIGNATURES ("true" to reject unsigned partner events) and
+ * MOCK_REMOTE_OPTIONS ("true" to serve the question form and project template
+ * options from a searchable options-source)
+ *
+ * Updates sent to an update-url under /results are received by a results
+ * sink served from the same port.
+ */
+
+const configExamplesDir = path.resolve(
+  process.env.MOCK_CONFIG_EXAMPLES ?? "../config-examples"
+);
+
+const loadFixtures = (): Record<string, RefappAtsConfig> => {
+  const fixtures: Record<string, RefappAtsConfig> = {};
+  for (const fileName of fs.readdirSync(configExamplesDir)) {
+    if (fileName.endsWith(".json")) {
+      const json = JSON.parse(
+        fs.readFileSync(path.join(configExamplesDir, fileName), "utf8")
+      );
+      fixtures[fileName] = refappAtsConfigSchema.parse(json);
+    }
+  }
+  return fixtures;
+};
+
+const toScenario = (value: unknown) =>
+  z.enum(mockRefappScenarioValues).catch("cost-centers").parse(value);
+
+// The sample app is served from another port during development
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, X-Provider-Key, X-Refapp-Signature",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const toRequest = async (
+  req: http.IncomingMessage,
+  origin: string
+): Promise<Request> => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") {
+      headers.set(name, value);
+    } else if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(name, v));
+    }
+  }
+  const method = req.method ?? "GET";
+  const body =
+    method === "GET" || method === "HEAD" ? undefined : await readBody(req);
+  return new Request(new URL(req.url ?? "/", origin), {
+    method,
+    headers,
+    body,
+  });
+};
+
+/**
+ * Serves a handler built on Request/Response (such as the mock Refapp)
+ * through a Node http server
+ */
+export const createHttpServer = (handler: RequestHandler, origin: string) =>
+  http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, corsHeaders).end();
+      return;
+    }
+    try {
+      const response = await handler(await toRequest(req, origin));
+      res.writeHead(response.status, {
+        ...Object.fromEntries(response.headers),
+        ...corsHeaders,
+      });
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (e) {
+      res.writeHead(500, {
+        "Content-Type": "application/json",
+        ...corsHeaders,
+      });
+      res.end(
+        JSON.stringify({ message: e instanceof Error ? e.message : String(e) })
+      );
+    }
+  });
+
+if (require.main === module) {
+  const port = Number(process.env.PORT ?? 4000);
+  const origin = `http://localhost:${port}`;
+  const atsSecret = process.env.MOCK_ATS_SECRET ?? "ats-secret";
+  const customerSecret = process.env.MOCK_CUSTOMER_SECRET ?? "customer-secret";
+  const updateBearerToken = process.env.MOCK_UPDATE_TOKEN;
+  const refapp = createMockRefapp({
+    atsSecret,
+    customerSecret,
+    fixtures: loadFixtures(),
+    scenario: toScenario(process.env.MOCK_SCENARIO),
+    baseUrl: origin,
+    updateBearerToken,
+    requireSignatures: process.env.MOCK_REQUIRE_SIGNATURES === "true",
+    remoteOptions: process.env.MOCK_REMOTE_OPTIONS === "true",
+  });
+  const resultsSink = createResultsSink({
+    bearerToken: updateBearerToken,
+    signingSecret: atsSecret,
+  });
+  const handler: RequestHandler = (request) =>
+    new URL(request.url).pathname.startsWith("/results")
+      ? resultsSink(request)
+      : refapp(request);
+  createHttpServer(handler, origin).listen(port, () => {
+    console.log(`Mock Refapp listening on ${origin}`);
+    console.log(`  Configuration Endpoint: ${origin}/config`);
+    console.log(`  POST Endpoint: ${origin}/partner-event`);
+    console.log(`  Update URL: ${origin}/results`);
+    console.log(`  ATS secret: ${atsSecret}`);
+    console.log(`  Customer secret: ${customerSecret}`);
+  });
+}
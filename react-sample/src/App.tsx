@@ -4,33 +4,106 @@ import {
   Accordion,
   AccordionDetails,
   AccordionSummary,
+  Alert,
   Box,
+  Button,
   Card,
   CardContent,
+  Checkbox,
   Container,
   createTheme,
   CssBaseline,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
   MenuItem,
   Select,
-  TextField,
   ThemeProvider,
   Typography,
 } from "@mui/material";
 import * as React from "react";
 import { AtsConfigPreview } from "./AtsConfigPreview";
-import { RefappAtsConfig } from "./lib/ats-types";
+import { CassetteControls } from "./CassetteControls";
+import { CandidateResultsView } from "./CandidateResultsView";
+import { EnvironmentSettings } from "./EnvironmentSettings";
+import { RequestHistory } from "./RequestHistory";
+import { ResultsTimeline } from "./ResultsTimeline";
+import {
+  AtsConfigField,
+  AtsConfigOptionsPage,
+  AtsPartnerEventIncoming,
+  AtsWebhookData,
+  candidateResultsSchema,
+  RefappAtsConfig,
+} from "./lib/ats-types";
+import {
+  CandidateResultsTimeline,
+  candidateResultsTimelineSchema,
+} from "./lib/results-sink";
+import {
+  Cassette,
+  CassetteMode,
+  createCassettePlayer,
+  createCassetteRecorder,
+  emptyCassette,
+  serializeCassette,
+} from "./lib/cassettes";
+import {
+  createConfigError,
+  parseConfig,
+  toOptionsPage,
+} from "./lib/config-client";
+import { downloadFile } from "./lib/download";
+import {
+  emptyEnvironment,
+  Environment,
+  isProductionEnvironment,
+  loadEnvironmentSession,
+} from "./lib/environment-profiles";
+import {
+  AtsKeyPair,
+  decryptCandidateResults,
+  generateAtsKeyPair,
+} from "./lib/pii-encryption";
+import {
+  createRefappClient,
+  RefappClientError,
+  RefappExchange,
+  RefappReplayRequest,
+  RefappResult,
+  RefappRetry,
+} from "./lib/refapp-client";
+import { addHistoryEntry, RequestHistoryEntry } from "./lib/request-history";
+import { toMockFetch } from "./lib/http-handlers";
+import { AtsConfigOptionsQuery } from "./lib/remote-options";
+import {
+  createPartnerEvent,
+  fromRefappErrorIssues,
+  toRefappErrorIssues,
+  validatePartnerEvent,
+  withRecruiterDomain,
+} from "./lib/partner-event-draft";
+import { assertIsNever } from "./lib/typehelpers";
+import { toWebhookDataErrors } from "./lib/webhook-data";
+import { PartnerEventEditor } from "./PartnerEventEditor";
+import { RefappErrorAlert } from "./RefappErrorAlert";
 import "./style.css";
 import { z } from "zod";
-import { fromPairs, map, random } from "lodash";
+import { map } from "lodash";
 
 /**
- * From the config-examples directory in this repository
+ * From the config-examples directory in this repository, which npm start and
+ * npm run build copy into public/ so the examples are served with the app
  */
 const configFiles = [
   "Cost Centers, existing project, English.json",
   "Cost Centers, existing project, Swedish.json",
   "Cost Centers.json",
   "External Recruitment, pre-filled values from default project template.json",
+  "Field Types.json",
   "Project Templates, existing project, English.json",
   "Project Templates, existing project, Swedish.json",
   "Project Templates.json",
@@ -77,105 +150,82 @@ const safeUrl = (url: string) => {
   }
 };
 
-const createConfigError = (message: string): RefappAtsConfig => ({
-  config: {
-    fields: [
-      {
-        id: "error",
-        type: "text",
-        label: message ?? "An error occurred",
-      },
-    ],
-  },
-});
-
-const fetchFromGitHub = async (
-  atsConfigFile: ConfigFile
+const fetchConfigExample = async (
+  atsConfigFile: ConfigFile,
+  fetchFunction: typeof fetch
 ): Promise<RefappAtsConfig> => {
   try {
-    const response = await fetch(
-      `https://raw.githubusercontent.com/ref-app/refapp-api/main/config-examples/${encodeURIComponent(
+    const response = await fetchFunction(
+      `${process.env.PUBLIC_URL}/config-examples/${encodeURIComponent(
         atsConfigFile
       )}`
     );
-    const config = await response.json();
-    return config;
-  } catch (e) {
-    return createConfigError(e instanceof Error ? e.message : String(e));
-  }
-};
-
-const fetchFromRefapp = async (
-  configEndpoint: string,
-  atsSecret: string,
-  customerSecret: string
-): Promise<RefappAtsConfig> => {
-  try {
-    const response = await fetch(configEndpoint, {
-      headers: {
-        "Authorization": `Bearer ${atsSecret}`,
-        "X-Provider-Key": customerSecret,
-      },
-    });
-    const config = await response.json();
     if (!response.ok) {
-      return createConfigError(config.message);
+      return createConfigError(
+        `Loading ${atsConfigFile} failed with status ${response.status}`
+      );
     }
-    return config;
+    return parseConfig(await response.json());
   } catch (e) {
     return createConfigError(e instanceof Error ? e.message : String(e));
   }
 };
 
-const generateCandidate = (recruiterDomain: string) => {
-  const candidateId = Math.random().toString(36).slice(2);
-  const jobId = Math.random().toString(36).slice(2);
-  return {
-    "id": candidateId,
-    "first-name": "John",
-    "last-name": "Doe",
-    "email": `john.doe.${candidateId}@private.example`,
-    "phone": `+467017406${random(0, 94) + 5}`,
-    "language": "en",
-    "job": {
-      id: jobId,
-      title: `Job #${jobId}`,
-    },
-    "recruiter": {
-      "first-name": "Richard",
-      "last-name": "Roe",
-      "email": `richard.roe@${recruiterDomain}`,
-    },
-  };
+/**
+ * The update-url for a candidate, when a results sink has been given
+ */
+// A submit or replay waiting for the user to confirm it is sent to production
+type PendingProductionCall =
+  | Readonly<{ kind: "submit"; webhookData: AtsWebhookData }>
+  | Readonly<{
+      kind: "replay";
+      request: RefappReplayRequest;
+      resolve: (result: RefappResult<unknown>) => void;
+    }>;
+
+const cancelledReplay: RefappResult<unknown> = {
+  ok: false,
+  error: {
+    kind: "transport",
+    reason: "aborted",
+    message: "The replay to production was cancelled",
+  },
+  attempts: 0,
 };
 
-const submitLive = async (
-  postEndpoint: string,
-  atsSecret: string,
-  customerSecret: string,
-  customerDomain: string,
-  dataObject: Record<string, any>
-): Promise<string> => {
+const toUpdateUrl = (resultsSinkUrl: string, candidateId: string) =>
+  safeUrl(resultsSinkUrl)
+    ? `${resultsSinkUrl.replace(/\/$/, "")}/${encodeURIComponent(candidateId)}`
+    : undefined;
+
+/**
+ * Reads back the updates received by the results sink, decrypting PII when
+ * the job was sent with an ats-public-key
+ */
+const fetchTimeline = async (
+  updateUrl: string,
+  privateKey: CryptoKey | undefined,
+  fetchFunction: typeof fetch
+): Promise<CandidateResultsTimeline> => {
   try {
-    const response = await fetch(postEndpoint, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${atsSecret}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        "partner-event": {
-          "company": { uuid: customerSecret },
-          "candidate": generateCandidate(customerDomain),
-          "partner-result": {},
-          "webhook-data": dataObject,
-        },
-      }),
-    });
-    const json = await response.json();
-    return JSON.stringify(json, undefined, 2);
-  } catch (e) {
-    return e instanceof Error ? e.message : String(e);
+    const response = await fetchFunction(updateUrl);
+    const result = candidateResultsTimelineSchema.safeParse(
+      await response.json()
+    );
+    if (!result.success) {
+      return [];
+    }
+    if (!privateKey) {
+      return result.data;
+    }
+    return await Promise.all(
+      result.data.map(async (update) => ({
+        ...update,
+        results: await decryptCandidateResults(update.results, privateKey),
+      }))
+    );
+  } catch (_) {
+    return [];
   }
 };
 
@@ -184,23 +234,141 @@ export default function App() {
     React.useState<ConfigMethod>(defaultConfigMethod);
   const [atsConfigFile, setAtsConfigFile] = React.useState<ConfigFile | "">("");
   const [atsConfig, setAtsConfig] = React.useState<RefappAtsConfig>();
-  const [liveConfigEndpoint, setLiveConfigEndpoint] =
-    React.useState<string>("");
-  const [livePostEndpoint, setLivePostEndpoint] = React.useState<string>("");
-  const [liveAtsSecret, setLiveAtsSecret] = React.useState<string>("");
-  const [liveCustomerSecret, setLiveCustomerSecret] =
-    React.useState<string>("");
-  const [liveCustomerDomain, setLiveCustomerDomain] =
-    React.useState<string>("");
-  const [submitResults, setSubmitResults] = React.useState<string>("");
+  // Shown instead of the config when fetching it from Refapp failed
+  const [configError, setConfigError] =
+    React.useState<Readonly<{ error: RefappClientError; attempts?: number }>>();
+  const [environment, setEnvironment] = React.useState<Environment>(
+    () => loadEnvironmentSession()?.current ?? emptyEnvironment
+  );
+  const {
+    configEndpoint: liveConfigEndpoint,
+    postEndpoint: livePostEndpoint,
+    atsSecret: liveAtsSecret,
+    customerSecret: liveCustomerSecret,
+    customerDomain: liveCustomerDomain,
+    resultsSinkUrl: liveResultsSinkUrl,
+  } = environment;
+  const isProduction = isProductionEnvironment(environment);
+  const [liveEncryptPii, setLiveEncryptPii] = React.useState<boolean>(false);
+  const [partnerEvent, setPartnerEvent] =
+    React.useState<AtsPartnerEventIncoming>(() =>
+      createPartnerEvent(environment.customerDomain)
+    );
+  const [keyPair, setKeyPair] = React.useState<AtsKeyPair>();
+  const [updateUrl, setUpdateUrl] = React.useState<string>();
+  const [timeline, setTimeline] = React.useState<CandidateResultsTimeline>([]);
+  const [submitResults, setSubmitResults] = React.useState<unknown>();
+  const [submitError, setSubmitError] =
+    React.useState<Readonly<{ error: RefappClientError; attempts?: number }>>();
+  const [submitRetry, setSubmitRetry] = React.useState<RefappRetry>();
+  // A failed submit is made again with the same event id, so Refapp can
+  // tell that it is not a new event
+  const [failedSubmit, setFailedSubmit] =
+    React.useState<Readonly<{ event: AtsPartnerEventIncoming; id: string }>>();
+  const [pendingCall, setPendingCall] = React.useState<PendingProductionCall>();
+  const [history, setHistory] = React.useState<
+    ReadonlyArray<RequestHistoryEntry>
+  >([]);
+  const [cassetteMode, setCassetteMode] = React.useState<CassetteMode>("off");
+  const [recordedCount, setRecordedCount] = React.useState<number>(0);
+  const [replayCassette, setReplayCassette] = React.useState<Cassette>();
   const [resetTrigger, setResetTrigger] = React.useState<number>(0);
   const theme = React.useMemo(() => createOurTheme(), []);
+  const submitIssues = React.useMemo(
+    () =>
+      submitError?.error.kind === "validation" ? submitError.error.issues : [],
+    [submitError]
+  );
+  const webhookDataErrors = React.useMemo(
+    () => toWebhookDataErrors(submitIssues),
+    [submitIssues]
+  );
+  // Only shown for the event that was submitted
+  const partnerEventIssues = React.useMemo(
+    () =>
+      failedSubmit?.event === partnerEvent
+        ? fromRefappErrorIssues(submitIssues)
+        : undefined,
+    [failedSubmit, partnerEvent, submitIssues]
+  );
+  const recordExchange = React.useCallback(
+    (exchange: RefappExchange) =>
+      setHistory((history) => addHistoryEntry(history, exchange)),
+    []
+  );
+  const recorder = React.useMemo(
+    () => createCassetteRecorder({ onRecord: setRecordedCount }),
+    []
+  );
+  // All calls of the app go through this, so a cassette can record or
+  // replace them
+  const fetchFunction = React.useMemo((): typeof fetch => {
+    switch (cassetteMode) {
+      case "off":
+        return (input, init) => fetch(input, init);
+      case "record":
+        return recorder.fetch;
+      case "replay":
+        return toMockFetch(
+          createCassettePlayer(replayCassette ?? emptyCassette, {
+            atsSecret: liveAtsSecret,
+            customerSecret: liveCustomerSecret,
+          })
+        );
+    }
+    return assertIsNever(cassetteMode);
+  }, [
+    cassetteMode,
+    recorder,
+    replayCassette,
+    liveAtsSecret,
+    liveCustomerSecret,
+  ]);
+  const client = React.useMemo(
+    () =>
+      createRefappClient({
+        postEndpoint: livePostEndpoint,
+        atsSecret: liveAtsSecret,
+        customerSecret: liveCustomerSecret,
+        onRetry: setSubmitRetry,
+        onExchange: recordExchange,
+        fetch: fetchFunction,
+      }),
+    [
+      livePostEndpoint,
+      liveAtsSecret,
+      liveCustomerSecret,
+      recordExchange,
+      fetchFunction,
+    ]
+  );
+  // Separate from the submit client, so the config is not fetched again when
+  // the post endpoint changes
+  const configClient = React.useMemo(
+    () =>
+      createRefappClient({
+        configEndpoint: liveConfigEndpoint,
+        atsSecret: liveAtsSecret,
+        customerSecret: liveCustomerSecret,
+        onExchange: recordExchange,
+        fetch: fetchFunction,
+      }),
+    [
+      liveConfigEndpoint,
+      liveAtsSecret,
+      liveCustomerSecret,
+      recordExchange,
+      fetchFunction,
+    ]
+  );
+  const candidateResults = candidateResultsSchema.safeParse(submitResults);
 
   React.useEffect(() => {
     const configEndpointUrl = safeUrl(liveConfigEndpoint);
     const postEndpointUrl = safeUrl(livePostEndpoint);
+    setConfigError(undefined);
     if (configMethod === "sample" && atsConfigFile !== "") {
-      fetchFromGitHub(atsConfigFile).then((atsConfig) =>
+      fetchConfigExample(atsConfigFile, fetchFunction).then((atsConfig) =>
         setAtsConfig(atsConfig)
       );
     } else if (
@@ -212,11 +380,10 @@ export default function App() {
       liveAtsSecret.length > 0 &&
       liveCustomerSecret.length > 0
     ) {
-      fetchFromRefapp(
-        liveConfigEndpoint,
-        liveAtsSecret,
-        liveCustomerSecret
-      ).then((atsConfig) => setAtsConfig(atsConfig));
+      configClient.fetchConfig().then((result) => {
+        setAtsConfig(result.ok ? result.data : undefined);
+        setConfigError(result.ok === false ? result : undefined);
+      });
     } else {
       setAtsConfig(undefined);
     }
@@ -226,9 +393,26 @@ export default function App() {
     liveConfigEndpoint,
     liveAtsSecret,
     liveCustomerSecret,
+    configClient,
+    fetchFunction,
     resetTrigger,
   ]);
 
+  // Poll the results sink for updates to the last submitted candidate
+  React.useEffect(() => {
+    setTimeline([]);
+    if (!updateUrl) {
+      return;
+    }
+    const poll = () =>
+      fetchTimeline(updateUrl, keyPair?.privateKey, fetchFunction).then(
+        setTimeline
+      );
+    poll();
+    const interval = setInterval(poll, 3000);
+    return () => clearInterval(interval);
+  }, [updateUrl, keyPair, fetchFunction]);
+
   const handleChange = (event: React.SyntheticEvent) => {
     const accordion = event.currentTarget.closest("[id^='config-']");
     if (accordion) {
@@ -236,20 +420,148 @@ export default function App() {
     }
   };
 
-  const handleSubmit = (formData: FormData) => {
-    const dataObject = fromPairs(Array.from(formData));
-    submitLive(
-      livePostEndpoint,
-      liveAtsSecret,
-      liveCustomerSecret,
-      liveCustomerDomain,
-      dataObject
-    ).then((result) => setSubmitResults(result));
+  const handleEnvironmentChange = (newEnvironment: Environment) => {
+    if (newEnvironment.customerDomain !== environment.customerDomain) {
+      setPartnerEvent((event) =>
+        withRecruiterDomain(event, newEnvironment.customerDomain)
+      );
+    }
+    setEnvironment(newEnvironment);
+  };
+
+  const submit = async (webhookData: AtsWebhookData) => {
+    setSubmitResults(undefined);
+    setSubmitError(undefined);
+    const issues = validatePartnerEvent(partnerEvent);
+    if (issues.length > 0) {
+      setSubmitError({
+        error: {
+          kind: "validation",
+          message: "The partner event is invalid",
+          issues: toRefappErrorIssues(issues),
+        },
+      });
+      return;
+    }
+    const candidateKeyPair = liveEncryptPii
+      ? await generateAtsKeyPair()
+      : undefined;
+    const { candidate } = partnerEvent;
+    const partnerResult = partnerEvent["partner-result"];
+    const eventId =
+      partnerEvent.id ??
+      (failedSubmit?.event === partnerEvent
+        ? failedSubmit.id
+        : crypto.randomUUID());
+    // Only the results sink is polled for updates
+    const sinkUpdateUrl = partnerResult["update-url"]
+      ? undefined
+      : toUpdateUrl(liveResultsSinkUrl, String(candidate.id));
+    client
+      .submitPartnerEvent({
+        ...partnerEvent,
+        "id": eventId,
+        "company": {
+          ...partnerEvent.company,
+          uuid: partnerEvent.company.uuid || liveCustomerSecret,
+        },
+        "candidate": candidateKeyPair
+          ? {
+              ...candidate,
+              job: {
+                ...candidate.job,
+                "ats-public-key": candidateKeyPair.publicKey,
+              },
+            }
+          : candidate,
+        "partner-result": {
+          ...partnerResult,
+          "update-url": partnerResult["update-url"] ?? sinkUpdateUrl,
+        },
+        "webhook-data": webhookData,
+      })
+      .then((result) => {
+        setSubmitRetry(undefined);
+        if (result.ok === false) {
+          setSubmitError({ error: result.error, attempts: result.attempts });
+          setFailedSubmit({ event: partnerEvent, id: eventId });
+        } else {
+          setSubmitResults(result.data);
+          setFailedSubmit(undefined);
+        }
+      });
+    setKeyPair(candidateKeyPair);
+    setUpdateUrl(sinkUpdateUrl);
   };
 
+  const handleSubmit = (webhookData: AtsWebhookData) => {
+    if (isProduction) {
+      setPendingCall({ kind: "submit", webhookData });
+    } else {
+      submit(webhookData);
+    }
+  };
+
+  const handleRefetch = (
+    webhookData: AtsWebhookData
+  ): Promise<RefappResult<RefappAtsConfig>> =>
+    configClient.fetchConfig(webhookData);
+
+  const handleFetchOptions = (
+    field: AtsConfigField,
+    query: AtsConfigOptionsQuery
+  ): Promise<AtsConfigOptionsPage> =>
+    configClient
+      .fetchOptions(field, query)
+      .then((result) => toOptionsPage(field, result));
+
+  // The replay is recorded in the history like any other call, and its
+  // result is shown with the entry that was replayed. Like a submit, it waits
+  // for confirmation in production.
+  const handleReplay = (
+    request: RefappReplayRequest
+  ): Promise<RefappResult<unknown>> =>
+    isProduction
+      ? new Promise((resolve) =>
+          setPendingCall({ kind: "replay", request, resolve })
+        )
+      : client.replayRequest(request);
+
+  const cancelPendingCall = () => {
+    if (pendingCall?.kind === "replay") {
+      pendingCall.resolve(cancelledReplay);
+    }
+    setPendingCall(undefined);
+  };
+
+  const confirmPendingCall = () => {
+    switch (pendingCall?.kind) {
+      case "submit":
+        submit(pendingCall.webhookData);
+        break;
+      case "replay":
+        client.replayRequest(pendingCall.request).then(pendingCall.resolve);
+        break;
+    }
+    setPendingCall(undefined);
+  };
+
+  const handleDownloadCassette = () =>
+    downloadFile(
+      `refapp-cassette-${new Date().toISOString().slice(0, 10)}.json`,
+      serializeCassette(
+        recorder.cassette({
+          atsSecret: liveAtsSecret,
+          customerSecret: liveCustomerSecret,
+        })
+      )
+    );
+
   const onReset = () => {
     console.log("onReset");
-    setSubmitResults("");
+    setSubmitResults(undefined);
+    setSubmitError(undefined);
+    setUpdateUrl(undefined);
     setResetTrigger((count) => count + 1);
   };
 
@@ -257,6 +569,13 @@ export default function App() {
     <ThemeProvider theme={theme}>
       <CssBaseline />
       <Container sx={{ display: "flex", flexDirection: "column", my: 2 }}>
+        {configMethod === "live" && isProduction && (
+          <Alert severity="error" variant="filled" sx={{ mb: 2 }}>
+            Production environment
+            {environment.name ? ` (${environment.name})` : ""}: submits reach a
+            real Refapp customer.
+          </Alert>
+        )}
         {/* All Accordions must share a common parent for the final rounded corners to work. */}
         <Box>
           <Accordion
@@ -302,35 +621,61 @@ export default function App() {
                 gap: 2,
               }}
             >
-              <TextField
-                label={"Configuration Endpoint"}
-                value={liveConfigEndpoint}
-                onChange={(e) => setLiveConfigEndpoint(e.currentTarget.value)}
-              />
-              <TextField
-                label={"POST Endpoint"}
-                value={livePostEndpoint}
-                onChange={(e) => setLivePostEndpoint(e.currentTarget.value)}
-              />
-              <TextField
-                label={"ATS secret"}
-                value={liveAtsSecret}
-                onChange={(e) => setLiveAtsSecret(e.currentTarget.value)}
-              />
-              <TextField
-                label={"Customer secret"}
-                value={liveCustomerSecret}
-                onChange={(e) => setLiveCustomerSecret(e.currentTarget.value)}
+              <EnvironmentSettings
+                value={environment}
+                onChange={handleEnvironmentChange}
               />
-              <TextField
-                label={"Customer email domain"}
-                value={liveCustomerDomain}
-                onChange={(e) => setLiveCustomerDomain(e.currentTarget.value)}
+              <FormControlLabel
+                label={
+                  "Encrypt PII in updates (sends a new ats-public-key with the job)"
+                }
+                control={
+                  <Checkbox
+                    checked={liveEncryptPii}
+                    onChange={(e) => setLiveEncryptPii(e.target.checked)}
+                  />
+                }
               />
+              <Accordion variant="outlined" disableGutters>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Typography>Partner event</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <PartnerEventEditor
+                    value={partnerEvent}
+                    onChange={setPartnerEvent}
+                    recruiterDomain={liveCustomerDomain}
+                    submitIssues={partnerEventIssues}
+                  />
+                </AccordionDetails>
+              </Accordion>
             </AccordionDetails>
           </Accordion>
         </Box>
 
+        <Card sx={{ mt: 2 }}>
+          <CardContent>
+            <CassetteControls
+              mode={cassetteMode}
+              onModeChange={setCassetteMode}
+              recordedCount={recordedCount}
+              onDownload={handleDownloadCassette}
+              onClear={recorder.clear}
+              cassette={replayCassette}
+              onLoad={setReplayCassette}
+            />
+          </CardContent>
+        </Card>
+
+        {configError && (
+          <Box sx={{ mt: 2 }}>
+            <RefappErrorAlert
+              error={configError.error}
+              attempts={configError.attempts}
+            />
+          </Box>
+        )}
+
         {atsConfig && (
           <Card sx={{ mt: 2 }}>
             <CardContent>
@@ -339,6 +684,9 @@ export default function App() {
                   configFields={atsConfig.config.fields}
                   onReset={onReset}
                   onSubmit={handleSubmit}
+                  onRefetch={handleRefetch}
+                  onFetchOptions={handleFetchOptions}
+                  submitErrors={webhookDataErrors}
                 />
               ) : (
                 <AtsConfigPreview
@@ -350,7 +698,31 @@ export default function App() {
           </Card>
         )}
 
-        {submitResults && (
+        {candidateResults.success && (
+          <Card sx={{ mt: 2 }}>
+            <CardContent>
+              <CandidateResultsView results={candidateResults.data} />
+            </CardContent>
+          </Card>
+        )}
+
+        {submitRetry && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Attempt {submitRetry.attempt} failed ({submitRetry.error.message}),
+            retrying in {Math.ceil(submitRetry.delayMs / 1000)} s
+          </Alert>
+        )}
+
+        {submitError && (
+          <Box sx={{ mt: 2 }}>
+            <RefappErrorAlert
+              error={submitError.error}
+              attempts={submitError.attempts}
+            />
+          </Box>
+        )}
+
+        {submitResults !== undefined && (
           <Card sx={{ mt: 2 }}>
             <Box
               sx={{
@@ -364,11 +736,57 @@ export default function App() {
                 fontFamily: "monospace",
               }}
             >
-              {submitResults}
+              {JSON.stringify(submitResults, undefined, 2)}
             </Box>
           </Card>
         )}
+
+        {history.length > 0 && (
+          <Card sx={{ mt: 2 }}>
+            <CardContent>
+              <RequestHistory
+                entries={history}
+                onReplay={handleReplay}
+                onClear={() => setHistory([])}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {updateUrl && (
+          <Card sx={{ mt: 2 }}>
+            <CardContent>
+              <ResultsTimeline timeline={timeline} />
+            </CardContent>
+          </Card>
+        )}
       </Container>
+      <Dialog open={pendingCall !== undefined} onClose={cancelPendingCall}>
+        <DialogTitle>
+          {pendingCall?.kind === "replay"
+            ? "Replay to production?"
+            : "Submit to production?"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {pendingCall?.kind === "replay"
+              ? `The ${pendingCall.request.method} will be sent to ${pendingCall.request.url}`
+              : `The candidate will be sent to ${livePostEndpoint}`}
+            {environment.name ? ` (${environment.name})` : ""}, which is a
+            production Refapp. It cannot be taken back.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button autoFocus onClick={cancelPendingCall}>
+            Cancel
+          </Button>
+          <Button color="error" onClick={confirmPendingCall}>
+            {pendingCall?.kind === "replay"
+              ? "Replay to production"
+              : "Submit to production"}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </ThemeProvider>
   );
 }
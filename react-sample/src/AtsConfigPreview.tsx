@@ -6,8 +6,16 @@ import {
   Checkbox,
   FormControl,
   FormControlLabel,
+  FormHelperText,
+  FormLabel,
   InputLabel,
+  LinearProgress,
+  Link,
+  ListItemText,
+  ListSubheader,
   MenuItem,
+  Radio,
+  RadioGroup,
   Select,
   TextField,
   Typography,
@@ -18,12 +26,33 @@ import * as _ from "lodash";
 import {
   AtsConfigField,
   AtsConfigFieldValue,
-  HtmlConfigFieldType,
+  AtsConfigOptionsPage,
+  AtsWebhookData,
+  HtmlConfigOption,
   InfoClass,
-  RefappConfigFieldType,
+  RefappAtsConfig,
+  RefappLabelFieldTypes,
 } from "./lib/ats-types";
 import { assertIsNever } from "./lib/typehelpers";
-import MuiMarkdown from "mui-markdown";
+import {
+  AtsConfigEdits,
+  getFieldValue,
+  groupConfigOptions,
+  mergeRefetchedEdits,
+} from "./lib/config-values";
+import { getFieldState, getFieldStates } from "./lib/field-conditions";
+import { toWebhookData, toWebhookDataErrors } from "./lib/webhook-data";
+import { isConfigValid, validateConfigValues } from "./lib/config-validation";
+import { AtsConfigOptionsQuery } from "./lib/remote-options";
+import { RefappClientError, RefappResult } from "./lib/refapp-client";
+import { RefappErrorAlert } from "./RefappErrorAlert";
+import { RemoteOptionsSelect } from "./RemoteOptionsSelect";
+import {
+  labelLinkAttributes,
+  sanitizeLabelHtml,
+  sanitizeLabelMarkdown,
+} from "./lib/label-sanitizer";
+import MuiMarkdown, { getOverrides } from "mui-markdown";
 
 const toSeverity = (value: InfoClass | undefined): AlertProps["severity"] => {
   if (!value || value === "default") {
@@ -33,7 +62,7 @@ const toSeverity = (value: InfoClass | undefined): AlertProps["severity"] => {
 };
 
 const textVariantFromFieldType = (
-  fieldType: Exclude<RefappConfigFieldType, HtmlConfigFieldType>
+  fieldType: RefappLabelFieldTypes
 ): TypographyProps["variant"] => {
   switch (fieldType) {
     case "header":
@@ -59,82 +88,245 @@ const TextContainer = ({
   return <React.Fragment>{children}</React.Fragment>;
 };
 
+const LabelLink = ({
+  href,
+  children,
+}: React.AnchorHTMLAttributes<HTMLAnchorElement>) => (
+  <Link href={href} {...labelLinkAttributes(href)}>
+    {children}
+  </Link>
+);
+
+// Passing overrides to MuiMarkdown replaces its defaults, so merge with them
+const labelMarkdownOverrides = getOverrides({
+  overrides: { a: { component: LabelLink } },
+});
+
+/**
+ * Select takes its options as direct children, so the groups are flattened
+ * into a list of subheaders and items rather than nested
+ */
+const optionMenuItems = (
+  options: ReadonlyArray<HtmlConfigOption>,
+  isSelected?: (option: HtmlConfigOption) => boolean
+) =>
+  groupConfigOptions(options).flatMap(({ group, options }) => [
+    ...(group !== undefined
+      ? [<ListSubheader key={`group-${group}`}>{group}</ListSubheader>]
+      : []),
+    ...options.map((option) => (
+      <MenuItem key={option.id} value={option.id} disabled={option.disabled}>
+        {isSelected && <Checkbox checked={isSelected(option)} />}
+        <ListItemText primary={option.label} secondary={option.description} />
+      </MenuItem>
+    )),
+  ]);
+
+const optionLabel = (options: ReadonlyArray<HtmlConfigOption>, id: string) =>
+  options.find((option) => option.id === id)?.label ?? id;
+
 type AtsConfigFieldPreviewProps = Readonly<{
   field: AtsConfigField;
+  value: AtsConfigFieldValue | undefined;
+  onChange: (value: AtsConfigFieldValue) => void;
+  /**
+   * Validation message to show on the field
+   */
+  error?: string;
+  /**
+   * Fetches a page of options for select fields with an options-source.
+   * Without it the inline options are shown.
+   */
+  fetchOptions?: (
+    query: AtsConfigOptionsQuery
+  ) => Promise<AtsConfigOptionsPage>;
 }>;
 export const AtsConfigFieldPreview = ({
   field,
+  value,
+  onChange,
+  error,
+  fetchOptions,
 }: AtsConfigFieldPreviewProps) => {
-  const [value, setValue] = React.useState<AtsConfigFieldValue | undefined>(
-    field.value
-  );
-
-  React.useEffect(() => {
-    setValue(field.value);
-  }, [field]);
-
   switch (field.type) {
     case "checkbox":
       return (
-        <FormControlLabel
-          sx={{ mx: 1, minWidth: 120 }}
-          label={field.label}
-          control={
-            <Checkbox
-              name={field.id}
-              disabled={field.disabled}
-              checked={_.isBoolean(value) ? value : false}
-              onChange={(e) => setValue(e.target.checked)}
-            />
-          }
-        />
+        <FormControl error={!!error} required={field.required}>
+          <FormControlLabel
+            sx={{ mx: 1, minWidth: 120 }}
+            label={field.label}
+            control={
+              <Checkbox
+                name={field.id}
+                disabled={field.disabled}
+                checked={_.isBoolean(value) ? value : false}
+                onChange={(e) => onChange(e.target.checked)}
+              />
+            }
+          />
+          {error && <FormHelperText>{error}</FormHelperText>}
+        </FormControl>
       );
     case "header":
     case "subheader":
     case "paragraph":
       return (
-          <TextContainer labelClass={field["label-class"]}>
-            {field["label-markdown"] ? (
-              <Typography component="div">
-                <MuiMarkdown>{field["label-markdown"]}</MuiMarkdown>
-              </Typography>
-            ) : (
-              <Typography sx={{ mx: 1}} variant={textVariantFromFieldType(field.type)}>
-                {field.label}
-              </Typography>
-            )}
-          </TextContainer>
+        <TextContainer labelClass={field["label-class"]}>
+          {field["label-markdown"] ? (
+            <Typography component="div">
+              <MuiMarkdown overrides={labelMarkdownOverrides}>
+                {sanitizeLabelMarkdown(field["label-markdown"])}
+              </MuiMarkdown>
+            </Typography>
+          ) : field["label-html"] ? (
+            <Typography
+              component="div"
+              dangerouslySetInnerHTML={{
+                __html: sanitizeLabelHtml(field["label-html"]),
+              }}
+            />
+          ) : (
+            <Typography
+              sx={{ mx: 1 }}
+              variant={textVariantFromFieldType(field.type)}
+            >
+              {field.label}
+            </Typography>
+          )}
+        </TextContainer>
       );
     case "select":
+      if (field["options-source"] && fetchOptions) {
+        return (
+          <RemoteOptionsSelect
+            field={field}
+            value={_.isString(value) ? value : ""}
+            onChange={onChange}
+            error={error}
+            fetchOptions={fetchOptions}
+          />
+        );
+      }
       return field.options ? (
-        <FormControl sx={{ m: 1, minWidth: 120 }}>
+        <FormControl
+          sx={{ m: 1, minWidth: 120 }}
+          error={!!error}
+          required={field.required}
+        >
           <InputLabel id={field.id}>{field.label}</InputLabel>
           <Select
             name={field.id}
             label={field.label}
             value={_.isString(value) ? value : ""}
             disabled={field.disabled}
-            onChange={(e) => setValue(e.target.value)}
+            renderValue={(selected) => optionLabel(field.options, selected)}
+            onChange={(e) => onChange(e.target.value)}
           >
-            {field.options.map((option) => (
-              // No support for optgroups
-              <MenuItem key={option.id} value={option.id}>
-                {option.label}
-              </MenuItem>
-            ))}
+            {optionMenuItems(field.options)}
           </Select>
+          {error && <FormHelperText>{error}</FormHelperText>}
+        </FormControl>
+      ) : null;
+    case "multi-select":
+      return field.options ? (
+        <FormControl
+          sx={{ m: 1, minWidth: 120 }}
+          error={!!error}
+          required={field.required}
+        >
+          <InputLabel id={field.id}>{field.label}</InputLabel>
+          <Select
+            multiple
+            name={field.id}
+            label={field.label}
+            value={_.isArray(value) ? value : []}
+            disabled={field.disabled}
+            renderValue={(selected) =>
+              selected.map((id) => optionLabel(field.options, id)).join(", ")
+            }
+            onChange={(e) =>
+              onChange(
+                // Autofill can give a comma separated string
+                _.isString(e.target.value)
+                  ? e.target.value.split(",")
+                  : e.target.value
+              )
+            }
+          >
+            {optionMenuItems(
+              field.options,
+              (option) => _.isArray(value) && value.includes(option.id)
+            )}
+          </Select>
+          {error && <FormHelperText>{error}</FormHelperText>}
+        </FormControl>
+      ) : null;
+    case "radio":
+      return field.options ? (
+        <FormControl
+          component="fieldset"
+          sx={{ mx: 1 }}
+          error={!!error}
+          required={field.required}
+          disabled={field.disabled}
+        >
+          <FormLabel component="legend">{field.label}</FormLabel>
+          <RadioGroup
+            name={field.id}
+            value={_.isString(value) ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+          >
+            {groupConfigOptions(field.options).map(({ group, options }) => (
+              <React.Fragment key={group ?? ""}>
+                {group !== undefined && (
+                  <Typography variant="subtitle2" mt={1}>
+                    {group}
+                  </Typography>
+                )}
+                {options.map((option) => (
+                  <FormControlLabel
+                    key={option.id}
+                    value={option.id}
+                    disabled={option.disabled}
+                    control={<Radio />}
+                    label={
+                      <ListItemText
+                        primary={option.label}
+                        secondary={option.description}
+                      />
+                    }
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </RadioGroup>
+          {error && <FormHelperText>{error}</FormHelperText>}
         </FormControl>
       ) : null;
     case "text":
+    case "textarea":
+    case "url":
+    case "number":
+    case "date":
       return (
         <TextField
           name={field.id}
           sx={{ m: 1, minWidth: 120 }}
+          type={field.type === "textarea" ? undefined : field.type}
+          multiline={field.type === "textarea"}
+          minRows={field.type === "textarea" ? 3 : undefined}
           disabled={field.disabled}
           label={field.label}
-          value={_.isString(value) ? value : ""}
+          value={_.isString(value) || _.isNumber(value) ? String(value) : ""}
           placeholder={field.placeholder}
-          onChange={(e) => setValue(e.target.value)}
+          required={field.required}
+          error={!!error}
+          helperText={error}
+          slotProps={{
+            // The browser shows a date placeholder that overlaps the label
+            inputLabel: field.type === "date" ? { shrink: true } : undefined,
+          }}
+          onChange={(e) => onChange(e.target.value)}
         />
       );
   }
@@ -144,13 +336,135 @@ export const AtsConfigFieldPreview = ({
 type AtsConfigPreviewProps = Readonly<{
   configFields: ReadonlyArray<AtsConfigField>;
   onReset: () => void;
-  onSubmit?: (data: FormData) => void;
+  onSubmit?: (data: AtsWebhookData) => void;
+  /**
+   * Called with the values of all fields whenever the user changes a field
+   */
+  onChange?: (data: AtsWebhookData) => void;
+  /**
+   * Called when a field with refetch set is changed, with the current values
+   * of all fields. When the call fails the current fields and values are kept
+   * and the error is shown above them, with the issues about webhook_data
+   * values on their fields.
+   */
+  onRefetch?: (
+    webhookData: AtsWebhookData
+  ) => Promise<RefappResult<RefappAtsConfig>>;
+  /**
+   * Called to search the options of a select field with an options-source
+   */
+  onFetchOptions?: (
+    field: AtsConfigField,
+    query: AtsConfigOptionsQuery
+  ) => Promise<AtsConfigOptionsPage>;
+  /**
+   * Errors from Refapp for the submitted values, keyed on field id, see
+   * toWebhookDataErrors. Each is shown until its field is changed.
+   */
+  submitErrors?: Readonly<Record<string, string>>;
 }>;
 export const AtsConfigPreview = ({
   configFields,
   onReset,
   onSubmit,
+  onChange,
+  onRefetch,
+  onFetchOptions,
+  submitErrors,
 }: AtsConfigPreviewProps) => {
+  const [fields, setFields] =
+    React.useState<ReadonlyArray<AtsConfigField>>(configFields);
+  const [edits, setEdits] = React.useState<AtsConfigEdits>({});
+  const [refetching, setRefetching] = React.useState<boolean>(false);
+  const [refetchError, setRefetchError] =
+    React.useState<Readonly<{ error: RefappClientError; attempts?: number }>>();
+  // Errors are shown for fields the user has changed, and for all fields
+  // once the user has tried to submit
+  const [submitAttempted, setSubmitAttempted] = React.useState<boolean>(false);
+  // Only the response to the latest refetch is applied
+  const refetchCount = React.useRef<number>(0);
+  const [changedSinceSubmit, setChangedSinceSubmit] = React.useState<
+    ReadonlySet<string>
+  >(new Set());
+
+  React.useEffect(() => {
+    setChangedSinceSubmit(new Set());
+  }, [submitErrors]);
+
+  React.useEffect(() => {
+    refetchCount.current += 1;
+    setFields(configFields);
+    setEdits({});
+    setRefetching(false);
+    setRefetchError(undefined);
+    setSubmitAttempted(false);
+  }, [configFields]);
+
+  const fieldStates = React.useMemo(
+    () => getFieldStates(fields, edits),
+    [fields, edits]
+  );
+  const errors = React.useMemo(
+    () => validateConfigValues(fields, edits),
+    [fields, edits]
+  );
+  const refetchErrors = React.useMemo(
+    () =>
+      refetchError?.error.kind === "validation"
+        ? toWebhookDataErrors(refetchError.error.issues)
+        : {},
+    [refetchError]
+  );
+
+  const handleSubmit = () => {
+    setSubmitAttempted(true);
+    if (onSubmit && isConfigValid(errors)) {
+      onSubmit(toWebhookData(fields, edits));
+    }
+  };
+
+  const handleChange = (field: AtsConfigField, value: AtsConfigFieldValue) => {
+    const newEdits = { ...edits, [field.id]: value };
+    setEdits(newEdits);
+    setChangedSinceSubmit((changed) => new Set(changed).add(field.id));
+    onChange?.(toWebhookData(fields, newEdits));
+    if (!field.refetch || !onRefetch) {
+      return;
+    }
+    const count = ++refetchCount.current;
+    setRefetching(true);
+    onRefetch(toWebhookData(fields, newEdits))
+      .then((result) => {
+        if (count !== refetchCount.current) {
+          return;
+        }
+        if (result.ok === false) {
+          setRefetchError(result);
+          return;
+        }
+        const newFields = result.data.config.fields;
+        setFields(newFields);
+        setEdits((current) => mergeRefetchedEdits(newFields, current));
+        setRefetchError(undefined);
+      })
+      .catch((e) => {
+        if (count === refetchCount.current) {
+          setRefetchError({
+            error: {
+              kind: "transport",
+              reason: "network",
+              message: e instanceof Error ? e.message : String(e),
+            },
+          });
+        }
+      })
+      .finally(() => {
+        if (count === refetchCount.current) {
+          setRefetching(false);
+        }
+      });
+  };
+
   return (
     <Box
       display="flex"
@@ -159,15 +473,44 @@ export const AtsConfigPreview = ({
       mb={0}
       component={"form"}
     >
-      {configFields.map((field) => (
-        <AtsConfigFieldPreview key={field.id} field={field} />
-      ))}
+      {refetching && <LinearProgress />}
+      {refetchError && (
+        <RefappErrorAlert
+          error={refetchError.error}
+          attempts={refetchError.attempts}
+          onClose={() => setRefetchError(undefined)}
+        />
+      )}
+      {fields.map((field) => {
+        const { visible, enabled } = getFieldState(fieldStates, field);
+        return visible ? (
+          <AtsConfigFieldPreview
+            key={field.id}
+            field={enabled ? field : { ...field, disabled: true }}
+            value={getFieldValue(field, edits)}
+            onChange={(value) => handleChange(field, value)}
+            error={
+              (submitAttempted || field.id in edits
+                ? errors[field.id]?.message
+                : undefined) ??
+              (changedSinceSubmit.has(field.id)
+                ? undefined
+                : submitErrors?.[field.id]) ??
+              refetchErrors[field.id]
+            }
+            fetchOptions={
+              onFetchOptions && ((query) => onFetchOptions(field, query))
+            }
+          />
+        ) : null;
+      })}
       <Box display="flex" gap={2} mx={1}>
         {onSubmit && (
           <Button
             variant="contained"
             sx={{ flexGrow: 1 }}
-            onClick={() => onSubmit(new FormData(document.forms[0]))}
+            disabled={refetching}
+            onClick={handleSubmit}
           >
             Submit
           </Button>
@@ -0,0 +1,189 @@
+import {
+  Box,
+  Button,
+  Chip,
+  ChipProps,
+  LinearProgress,
+  Link,
+  Typography,
+} from "@mui/material";
+import WarningIcon from "@mui/icons-material/Warning";
+import * as React from "react";
+import * as _ from "lodash";
+import {
+  AtsResultStatus,
+  CandidateAssessment,
+  CandidateAttachment,
+  CandidateResults,
+  FraudWarningType,
+} from "./lib/ats-types";
+import { assertIsNever } from "./lib/typehelpers";
+
+export const statusColor = (status: AtsResultStatus): ChipProps["color"] => {
+  switch (status) {
+    case "sending":
+    case "sent":
+      return "info";
+    case "pending":
+      return "warning";
+    case "completed":
+      return "success";
+    case "failed":
+      return "error";
+  }
+  return assertIsNever(status);
+};
+
+const fraudWarningLabel = (warning: FraudWarningType): string => {
+  switch (warning) {
+    case "same-ip-address":
+      return "Same IP address";
+    case "same-email-address":
+      return "Same email address";
+    case "same-phone-number":
+      return "Same phone number";
+  }
+  return assertIsNever(warning);
+};
+
+type AttachmentType = NonNullable<CandidateAttachment["type"]> | "other";
+
+const attachmentTypeLabel = (type: AttachmentType): string => {
+  switch (type) {
+    case "report-url":
+      return "Reports";
+    case "report-pdf-data":
+      return "PDF reports";
+    case "candidate-url":
+      return "Candidate links";
+    case "other":
+      return "Other attachments";
+  }
+  return assertIsNever(type);
+};
+
+const attachmentTypeOrder: ReadonlyArray<AttachmentType> = [
+  "report-url",
+  "report-pdf-data",
+  "candidate-url",
+  "other",
+];
+
+const AssessmentProgress = ({
+  assessment,
+}: Readonly<{ assessment: CandidateAssessment }>) => {
+  const { total, completed, declined, remainingToSubmit, score } = assessment;
+  const percentage = (count: number | undefined) =>
+    total && count !== undefined ? (100 * count) / total : 0;
+  return (
+    <Box display="flex" flexDirection="column" gap={1}>
+      <LinearProgress
+        variant="buffer"
+        value={percentage(completed)}
+        valueBuffer={percentage((completed ?? 0) + (declined ?? 0))}
+        aria-label="Completed references"
+      />
+      <Box display="flex" gap={2} flexWrap="wrap">
+        <Typography variant="body2">
+          Completed: {completed ?? "–"} of {total ?? "–"}
+        </Typography>
+        <Typography variant="body2">Declined: {declined ?? "–"}</Typography>
+        <Typography variant="body2">
+          Remaining to submit: {remainingToSubmit ?? "–"}
+        </Typography>
+        {score !== undefined && (
+          <Typography variant="body2">Score: {Math.round(score)}</Typography>
+        )}
+      </Box>
+      {assessment.fraudWarnings && assessment.fraudWarnings.length > 0 && (
+        <Box display="flex" gap={1} flexWrap="wrap">
+          {assessment.fraudWarnings.map((warning) => (
+            <Chip
+              key={warning}
+              size="small"
+              color="error"
+              icon={<WarningIcon />}
+              label={fraudWarningLabel(warning)}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+const AttachmentLink = ({
+  attachment,
+}: Readonly<{ attachment: CandidateAttachment }>) => (
+  <Link
+    href={attachment.url}
+    target="_blank"
+    rel="noopener noreferrer"
+    download={attachment.type === "report-pdf-data" ? true : undefined}
+  >
+    {attachment.description || attachment.url}
+  </Link>
+);
+
+type CandidateResultsViewProps = Readonly<{
+  results: CandidateResults;
+}>;
+
+/**
+ * Renders a partner result the way an ATS could show it on the candidate
+ */
+export const CandidateResultsView = ({
+  results,
+}: CandidateResultsViewProps) => {
+  const { status, summary, url, candidateLink, assessment, attachments } =
+    results.attributes;
+  const attachmentGroups = _.groupBy(
+    attachments ?? [],
+    (attachment): AttachmentType => attachment.type ?? "other"
+  );
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" gap={1} alignItems="center">
+        <Typography variant="h2" flexGrow={1}>
+          Reference check
+        </Typography>
+        <Chip label={status} color={statusColor(status)} />
+      </Box>
+      <Typography>{summary}</Typography>
+      {assessment && <AssessmentProgress assessment={assessment} />}
+      {(url || candidateLink) && (
+        <Box display="flex" gap={2} flexWrap="wrap">
+          {url && (
+            <Button
+              variant="contained"
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              View report
+            </Button>
+          )}
+          {candidateLink && (
+            <Button
+              href={candidateLink.url}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {candidateLink.description || "Open in Refapp"}
+            </Button>
+          )}
+        </Box>
+      )}
+      {attachmentTypeOrder
+        .filter((type) => attachmentGroups[type])
+        .map((type) => (
+          <Box key={type} display="flex" flexDirection="column" gap={0.5}>
+            <Typography variant="h3">{attachmentTypeLabel(type)}</Typography>
+            {attachmentGroups[type].map((attachment, index) => (
+              <AttachmentLink key={index} attachment={attachment} />
+            ))}
+          </Box>
+        ))}
+    </Box>
+  );
+};
@@ -0,0 +1,125 @@
+import {
+  Alert,
+  Box,
+  Button,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import * as React from "react";
+import {
+  Cassette,
+  CassetteMode,
+  cassetteModeValues,
+  parseCassette,
+} from "./lib/cassettes";
+
+const cassetteModeLabels: Readonly<Record<CassetteMode, string>> = {
+  off: "Off",
+  record: "Record",
+  replay: "Replay",
+};
+
+/**
+ * Switches all calls of the sample app between the network, recording a
+ * cassette and replaying one offline
+ */
+export const CassetteControls = ({
+  mode,
+  onModeChange,
+  recordedCount,
+  onDownload,
+  onClear,
+  cassette,
+  onLoad,
+}: Readonly<{
+  mode: CassetteMode;
+  onModeChange: (mode: CassetteMode) => void;
+  recordedCount: number;
+  onDownload: () => void;
+  onClear: () => void;
+  /**
+   * The cassette being replayed
+   */
+  cassette: Cassette | undefined;
+  onLoad: (cassette: Cassette) => void;
+}>) => {
+  const [loadIssues, setLoadIssues] = React.useState<ReadonlyArray<string>>([]);
+  const loadInput = React.useRef<HTMLInputElement>(null);
+
+  const handleLoad = async (file: File) => {
+    const result = parseCassette(await file.text());
+    if (result.valid === false) {
+      setLoadIssues(result.issues);
+    } else {
+      setLoadIssues([]);
+      onLoad(result.cassette);
+    }
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={1}>
+      <Box display="flex" flexWrap="wrap" alignItems="center" gap={2}>
+        <TextField
+          select
+          size="small"
+          label="Cassette"
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as CassetteMode)}
+          sx={{ minWidth: 140 }}
+        >
+          {cassetteModeValues.map((value) => (
+            <MenuItem key={value} value={value}>
+              {cassetteModeLabels[value]}
+            </MenuItem>
+          ))}
+        </TextField>
+        {mode === "record" && (
+          <>
+            <Typography>{recordedCount} recorded</Typography>
+            <Button disabled={recordedCount === 0} onClick={onDownload}>
+              Download cassette
+            </Button>
+            <Button disabled={recordedCount === 0} onClick={onClear}>
+              Clear
+            </Button>
+          </>
+        )}
+        {mode === "replay" && (
+          <>
+            <Typography>
+              {cassette
+                ? `${cassette.interactions.length} interactions recorded ${new Date(
+                    cassette.recordedAt
+                  ).toLocaleString()}`
+                : "No cassette loaded, calls are answered with 404"}
+            </Typography>
+            <Button onClick={() => loadInput.current?.click()}>
+              Load cassette
+            </Button>
+            <input
+              ref={loadInput}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.currentTarget.files?.[0];
+                e.currentTarget.value = "";
+                if (file) {
+                  handleLoad(file);
+                }
+              }}
+            />
+          </>
+        )}
+      </Box>
+      {mode === "replay" && loadIssues.length > 0 && (
+        <Alert severity="error" onClose={() => setLoadIssues([])}>
+          {loadIssues.map((issue) => (
+            <div key={issue}>{issue}</div>
+          ))}
+        </Alert>
+      )}
+    </Box>
+  );
+};
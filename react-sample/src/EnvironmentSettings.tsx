@@ -0,0 +1,286 @@
+import Visibility from "@mui/icons-material/Visibility";
+import VisibilityOff from "@mui/icons-material/VisibilityOff";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  MenuItem,
+  TextField,
+} from "@mui/material";
+import * as React from "react";
+import * as _ from "lodash";
+import {
+  deleteEnvironmentProfile,
+  emptySecrets,
+  Environment,
+  EnvironmentKind,
+  environmentKindValues,
+  EnvironmentProfile,
+  EnvironmentSecrets,
+  exportEnvironmentProfiles,
+  guessEnvironmentKind,
+  importEnvironmentProfiles,
+  loadEnvironmentProfiles,
+  loadEnvironmentSession,
+  saveEnvironmentProfile,
+  saveEnvironmentSession,
+  toSecrets,
+  withoutSecrets,
+} from "./lib/environment-profiles";
+import { downloadFile } from "./lib/download";
+
+/**
+ * A password input with a button to show the value
+ */
+const SecretField = ({
+  label,
+  value,
+  onChange,
+}: Readonly<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}>) => {
+  const [shown, setShown] = React.useState(false);
+  return (
+    <TextField
+      label={label}
+      type={shown ? "text" : "password"}
+      autoComplete="off"
+      value={value}
+      onChange={(e) => onChange(e.currentTarget.value)}
+      slotProps={{
+        input: {
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton
+                aria-label={shown ? `Hide ${label}` : `Show ${label}`}
+                edge="end"
+                onClick={() => setShown((show) => !show)}
+              >
+                {shown ? <VisibilityOff /> : <Visibility />}
+              </IconButton>
+            </InputAdornment>
+          ),
+        },
+      }}
+    />
+  );
+};
+
+/**
+ * Endpoints and credentials of the live test, with named profiles kept in
+ * local storage without their secrets. Secrets are kept in session storage
+ * only when "Remember secrets" is checked.
+ */
+export const EnvironmentSettings = ({
+  value,
+  onChange,
+}: Readonly<{
+  value: Environment;
+  onChange: (value: Environment) => void;
+}>) => {
+  const [profiles, setProfiles] = React.useState<
+    ReadonlyArray<EnvironmentProfile>
+  >(() => loadEnvironmentProfiles());
+  const [remember, setRemember] = React.useState(
+    () => loadEnvironmentSession() !== undefined
+  );
+  // Secrets of the profiles used on this page, so switching back to a
+  // profile keeps them
+  const [secrets, setSecrets] = React.useState<
+    Readonly<Record<string, EnvironmentSecrets>>
+  >(() => loadEnvironmentSession()?.secrets ?? {});
+  const [importIssues, setImportIssues] = React.useState<ReadonlyArray<string>>(
+    []
+  );
+  const importInput = React.useRef<HTMLInputElement>(null);
+  const name = value.name.trim();
+  const selected = profiles.find((profile) => profile.name === name);
+
+  const currentSecrets = React.useMemo(
+    () => (name ? { ...secrets, [name]: toSecrets(value) } : secrets),
+    [name, secrets, value]
+  );
+
+  React.useEffect(() => {
+    saveEnvironmentSession(
+      remember ? { current: value, secrets: currentSecrets } : undefined
+    );
+  }, [remember, value, currentSecrets]);
+
+  const update = (changes: Partial<Environment>) =>
+    onChange({ ...value, ...changes });
+
+  const updateEndpoint = (
+    key: "configEndpoint" | "postEndpoint",
+    endpoint: string
+  ) =>
+    update({
+      [key]: endpoint,
+      kind: guessEnvironmentKind(endpoint) ?? value.kind,
+    });
+
+  const handleSelect = (profileName: string) => {
+    const profile = profiles.find((profile) => profile.name === profileName);
+    if (profile) {
+      setSecrets(currentSecrets);
+      onChange({
+        ...profile,
+        ...(currentSecrets[profile.name] ?? emptySecrets),
+      });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    const result = importEnvironmentProfiles(await file.text());
+    setImportIssues(result.issues);
+    result.profiles.forEach((profile) =>
+      setProfiles(saveEnvironmentProfile(profile))
+    );
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" flexWrap="wrap" alignItems="center" gap={1}>
+        <TextField
+          select
+          size="small"
+          label="Profile"
+          value={selected ? name : ""}
+          onChange={(e) => handleSelect(e.target.value)}
+          sx={{ minWidth: 200 }}
+        >
+          {profiles.map((profile) => (
+            <MenuItem key={profile.name} value={profile.name}>
+              {profile.name} ({profile.kind})
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Profile name"
+          value={value.name}
+          onChange={(e) => update({ name: e.currentTarget.value })}
+        />
+        <TextField
+          select
+          size="small"
+          label="Kind"
+          value={value.kind}
+          onChange={(e) => update({ kind: e.target.value as EnvironmentKind })}
+          sx={{ minWidth: 140 }}
+        >
+          {environmentKindValues.map((kind) => (
+            <MenuItem key={kind} value={kind}>
+              {_.capitalize(kind)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          disabled={name === ""}
+          onClick={() => {
+            setProfiles(
+              saveEnvironmentProfile(withoutSecrets({ ...value, name }))
+            );
+            setSecrets(currentSecrets);
+          }}
+        >
+          Save profile
+        </Button>
+        <Button
+          color="error"
+          disabled={!selected}
+          onClick={() => {
+            setProfiles(deleteEnvironmentProfile(name));
+            setSecrets(_.omit(secrets, name));
+          }}
+        >
+          Delete profile
+        </Button>
+        <Button
+          disabled={profiles.length === 0}
+          onClick={() =>
+            downloadFile(
+              "refapp-environments.json",
+              exportEnvironmentProfiles(profiles)
+            )
+          }
+        >
+          Export
+        </Button>
+        <Button onClick={() => importInput.current?.click()}>Import</Button>
+        <input
+          ref={importInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(e) => {
+            const file = e.currentTarget.files?.[0];
+            e.currentTarget.value = "";
+            if (file) {
+              handleImport(file);
+            }
+          }}
+        />
+      </Box>
+      {importIssues.length > 0 && (
+        <Alert severity="error" onClose={() => setImportIssues([])}>
+          {importIssues.map((issue) => (
+            <div key={issue}>{issue}</div>
+          ))}
+        </Alert>
+      )}
+      <TextField
+        label={"Configuration Endpoint"}
+        value={value.configEndpoint}
+        onChange={(e) =>
+          updateEndpoint("configEndpoint", e.currentTarget.value)
+        }
+      />
+      <TextField
+        label={"POST Endpoint"}
+        value={value.postEndpoint}
+        onChange={(e) => updateEndpoint("postEndpoint", e.currentTarget.value)}
+      />
+      <SecretField
+        label={"ATS secret"}
+        value={value.atsSecret}
+        onChange={(atsSecret) => update({ atsSecret })}
+      />
+      <SecretField
+        label={"Customer secret"}
+        value={value.customerSecret}
+        onChange={(customerSecret) => update({ customerSecret })}
+      />
+      <TextField
+        label={"Customer email domain"}
+        value={value.customerDomain}
+        onChange={(e) => update({ customerDomain: e.currentTarget.value })}
+      />
+      <TextField
+        label={"Update URL (results sink)"}
+        helperText={
+          "Optional. Updates for each candidate are sent to this url followed by the candidate id"
+        }
+        value={value.resultsSinkUrl}
+        onChange={(e) => update({ resultsSinkUrl: e.currentTarget.value })}
+      />
+      <FormControlLabel
+        label={
+          "Remember secrets until the browser tab is closed (session storage). Profiles never store secrets."
+        }
+        control={
+          <Checkbox
+            checked={remember}
+            onChange={(e) => setRemember(e.target.checked)}
+          />
+        }
+      />
+    </Box>
+  );
+};
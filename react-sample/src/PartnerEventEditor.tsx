@@ -0,0 +1,550 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import * as React from "react";
+import * as _ from "lodash";
+import {
+  atsResultStatusValues,
+  AtsPartnerEventIncoming,
+} from "./lib/ats-types";
+import {
+  createPartnerEvent,
+  createReferee,
+  createTeamMember,
+  deletePartnerEventPreset,
+  formatPartnerEventIssue,
+  loadPartnerEventPresets,
+  PartnerEventIssue,
+  PartnerEventPath,
+  PartnerEventPreset,
+  savePartnerEventPreset,
+  toIssueKey,
+  updatePartnerEvent,
+  validatePartnerEvent,
+} from "./lib/partner-event-draft";
+import { fakeLocaleValues, FakeLocale } from "./lib/fake-data";
+
+type FieldSpec = Readonly<{
+  key: string;
+  label: string;
+  required?: boolean;
+  multiline?: boolean;
+}>;
+
+const personFields: ReadonlyArray<FieldSpec> = [
+  { key: "first-name", label: "First name", required: true },
+  { key: "last-name", label: "Last name", required: true },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "country-calling-code", label: "Country calling code" },
+  { key: "language", label: "Language" },
+];
+
+const candidateFields: ReadonlyArray<FieldSpec> = [
+  { key: "id", label: "Candidate id", required: true },
+  ...personFields,
+  { key: "ats-url", label: "ATS url" },
+];
+
+const recruiterFields: ReadonlyArray<FieldSpec> = [
+  { key: "email", label: "Email", required: true },
+  { key: "name", label: "Name" },
+  { key: "first-name", label: "First name" },
+  { key: "last-name", label: "Last name" },
+  { key: "phone", label: "Phone" },
+  { key: "country-calling-code", label: "Country calling code" },
+  { key: "ats-url", label: "ATS url" },
+];
+
+const jobFields: ReadonlyArray<FieldSpec> = [
+  { key: "id", label: "Job id", required: true },
+  { key: "title", label: "Title", required: true },
+  { key: "client-name", label: "Client name" },
+  { key: "ats-url", label: "ATS url" },
+  { key: "ats-name", label: "ATS name" },
+  { key: "description", label: "Description", multiline: true },
+];
+
+const Section = ({
+  title,
+  children,
+}: React.PropsWithChildren<Readonly<{ title: string }>>) => (
+  <Box display="flex" flexDirection="column" gap={1}>
+    <Typography variant="h3">{title}</Typography>
+    <Box
+      display="grid"
+      gridTemplateColumns="repeat(auto-fill, minmax(220px, 1fr))"
+      gap={1}
+    >
+      {children}
+    </Box>
+  </Box>
+);
+
+const toJson = (event: AtsPartnerEventIncoming) =>
+  JSON.stringify(event, undefined, 2);
+
+/**
+ * The event as JSON, for pasting an event from elsewhere. The text is
+ * validated as it is typed and only replaces the event when it is valid.
+ */
+const PartnerEventJson = ({
+  value,
+  onChange,
+}: Readonly<{
+  value: AtsPartnerEventIncoming;
+  onChange: (value: AtsPartnerEventIncoming) => void;
+}>) => {
+  const [text, setText] = React.useState(() => toJson(value));
+  const [issues, setIssues] = React.useState<ReadonlyArray<string>>([]);
+  const emitted = React.useRef(value);
+
+  // Only changes made outside the text replace it, so typing keeps its format
+  React.useEffect(() => {
+    if (value !== emitted.current) {
+      setText(toJson(value));
+      setIssues([]);
+    }
+  }, [value]);
+
+  const handleChange = (newText: string) => {
+    setText(newText);
+    let json: unknown;
+    try {
+      json = JSON.parse(newText);
+    } catch (e) {
+      setIssues([e instanceof Error ? e.message : String(e)]);
+      return;
+    }
+    const jsonIssues = validatePartnerEvent(json);
+    setIssues(jsonIssues.map(formatPartnerEventIssue));
+    if (jsonIssues.length === 0) {
+      emitted.current = json as AtsPartnerEventIncoming;
+      onChange(emitted.current);
+    }
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={1}>
+      <TextField
+        label="Partner event JSON"
+        multiline
+        minRows={8}
+        maxRows={24}
+        value={text}
+        error={issues.length > 0}
+        onChange={(e) => handleChange(e.target.value)}
+        slotProps={{ input: { sx: { fontFamily: "monospace" } } }}
+      />
+      {issues.length > 0 && (
+        <Alert severity="error">
+          {issues.map((issue) => (
+            <div key={issue}>{issue}</div>
+          ))}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+const PartnerEventPresets = ({
+  value,
+  onChange,
+}: Readonly<{
+  value: AtsPartnerEventIncoming;
+  onChange: (value: AtsPartnerEventIncoming) => void;
+}>) => {
+  const [presets, setPresets] = React.useState<
+    ReadonlyArray<PartnerEventPreset>
+  >(() => loadPartnerEventPresets());
+  const [name, setName] = React.useState("");
+  const selected = presets.find((preset) => preset.name === name);
+  // Presets are only loaded when they are valid partner events
+  const valid = React.useMemo(
+    () => validatePartnerEvent(value).length === 0,
+    [value]
+  );
+
+  return (
+    <Box display="flex" flexWrap="wrap" alignItems="center" gap={1}>
+      <TextField
+        select
+        size="small"
+        label="Preset"
+        value={selected ? name : ""}
+        onChange={(e) => {
+          const preset = presets.find(
+            (preset) => preset.name === e.target.value
+          );
+          if (preset) {
+            setName(preset.name);
+            onChange(preset.event);
+          }
+        }}
+        sx={{ minWidth: 200 }}
+      >
+        {presets.map((preset) => (
+          <MenuItem key={preset.name} value={preset.name}>
+            {preset.name}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        size="small"
+        label="Preset name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <Button
+        disabled={name.trim() === "" || !valid}
+        onClick={() =>
+          setPresets(
+            savePartnerEventPreset({ name: name.trim(), event: value })
+          )
+        }
+      >
+        Save preset
+      </Button>
+      <Button
+        color="error"
+        disabled={!selected}
+        onClick={() => {
+          setPresets(deletePartnerEventPreset(name));
+          setName("");
+        }}
+      >
+        Delete preset
+      </Button>
+      {!valid && (
+        <Typography variant="body2" color="text.secondary">
+          Fix the issues below to save the event as a preset
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+const noIssues: ReadonlyArray<PartnerEventIssue> = [];
+
+/**
+ * Creates a new candidate from the fake data generator. The seed of the last
+ * candidate is shown so it can be created again.
+ */
+const NewCandidate = ({
+  onChange,
+  recruiterDomain,
+}: Readonly<{
+  onChange: (value: AtsPartnerEventIncoming) => void;
+  recruiterDomain: string;
+}>) => {
+  const [seed, setSeed] = React.useState("");
+  const [lastSeed, setLastSeed] = React.useState<number>();
+  const [locale, setLocale] = React.useState<FakeLocale | "">("");
+  const [edgeCases, setEdgeCases] = React.useState(false);
+  const validSeed = seed.trim() === "" || /^\d+$/.test(seed.trim());
+
+  const handleCreate = () => {
+    const usedSeed =
+      seed.trim() === "" ? _.random(0, 2 ** 32 - 1) : Number(seed.trim());
+    setLastSeed(usedSeed);
+    onChange(
+      createPartnerEvent(recruiterDomain, {
+        seed: usedSeed,
+        locale: locale === "" ? undefined : locale,
+        edgeCases,
+      })
+    );
+  };
+
+  return (
+    <Box display="flex" flexWrap="wrap" alignItems="center" gap={1}>
+      <Button variant="outlined" disabled={!validSeed} onClick={handleCreate}>
+        New candidate
+      </Button>
+      <TextField
+        size="small"
+        label="Seed"
+        value={seed}
+        error={!validSeed}
+        helperText={
+          lastSeed === undefined ? "Random if empty" : `Last seed ${lastSeed}`
+        }
+        onChange={(e) => setSeed(e.target.value)}
+      />
+      <TextField
+        select
+        size="small"
+        label="Locale"
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as FakeLocale | "")}
+        sx={{ minWidth: 120 }}
+      >
+        <MenuItem value="">Any</MenuItem>
+        {fakeLocaleValues.map((value) => (
+          <MenuItem key={value} value={value}>
+            {value}
+          </MenuItem>
+        ))}
+      </TextField>
+      <FormControlLabel
+        label="Edge cases"
+        control={
+          <Checkbox
+            checked={edgeCases}
+            onChange={(e) => setEdgeCases(e.target.checked)}
+          />
+        }
+      />
+    </Box>
+  );
+};
+
+/**
+ * Edits the partner event that is submitted with the webhook-data from the
+ * config UI. Values are validated against the payload schema as they are
+ * typed. Empty optional values are left out of the event.
+ */
+export const PartnerEventEditor = ({
+  value,
+  onChange,
+  recruiterDomain,
+  submitIssues = noIssues,
+}: Readonly<{
+  value: AtsPartnerEventIncoming;
+  onChange: (value: AtsPartnerEventIncoming) => void;
+  recruiterDomain: string;
+  /**
+   * Issues Refapp found when the event was submitted, shown with the issues
+   * found as it is typed
+   */
+  submitIssues?: ReadonlyArray<PartnerEventIssue>;
+}>) => {
+  const [showJson, setShowJson] = React.useState(false);
+  // Issues found as the event is typed replace those for the same value
+  const issues = React.useMemo(
+    () =>
+      _.uniqBy(
+        [...submitIssues, ...validatePartnerEvent(value)],
+        formatPartnerEventIssue
+      ),
+    [value, submitIssues]
+  );
+  const issuesByPath = React.useMemo(
+    () =>
+      new Map(
+        issues.map((issue: PartnerEventIssue) => [
+          toIssueKey(issue.path),
+          issue.message,
+        ])
+      ),
+    [issues]
+  );
+
+  const update = (path: PartnerEventPath, newValue: unknown) =>
+    onChange(updatePartnerEvent(value, path, newValue));
+
+  const textField = (
+    path: PartnerEventPath,
+    { key, label, required, multiline }: FieldSpec
+  ) => {
+    const fieldPath = [...path, key];
+    const fieldValue: unknown = _.get(value, fieldPath);
+    const error = issuesByPath.get(toIssueKey(fieldPath));
+    return (
+      <TextField
+        key={key}
+        size="small"
+        label={label}
+        required={required}
+        multiline={multiline}
+        value={
+          fieldValue === undefined || fieldValue === null ? "" : fieldValue
+        }
+        error={!!error}
+        helperText={error}
+        onChange={(e) =>
+          update(
+            fieldPath,
+            e.target.value === "" && !required ? undefined : e.target.value
+          )
+        }
+        sx={multiline ? { gridColumn: "1 / -1" } : undefined}
+      />
+    );
+  };
+
+  const listEditor = <T,>(
+    path: PartnerEventPath,
+    title: string,
+    itemTitle: string,
+    fields: ReadonlyArray<FieldSpec>,
+    createItem: () => T
+  ) => {
+    const items: ReadonlyArray<T> = _.get(value, path) ?? [];
+    return (
+      <Box display="flex" flexDirection="column" gap={1}>
+        <Typography variant="h3">{title}</Typography>
+        {items.map((_item, index) => (
+          <Box
+            key={index}
+            display="flex"
+            flexDirection="column"
+            gap={1}
+            sx={{ pl: 2, borderLeft: 2, borderColor: "grey.300" }}
+          >
+            <Box display="flex" alignItems="center" gap={1}>
+              <Typography>
+                {itemTitle} {index + 1}
+              </Typography>
+              <Button
+                size="small"
+                color="error"
+                onClick={() => {
+                  const remaining = items.filter((_, i) => i !== index);
+                  update(path, remaining.length > 0 ? remaining : undefined);
+                }}
+              >
+                Remove
+              </Button>
+            </Box>
+            <Box
+              display="grid"
+              gridTemplateColumns="repeat(auto-fill, minmax(220px, 1fr))"
+              gap={1}
+            >
+              {fields.map((field) => textField([...path, index], field))}
+            </Box>
+          </Box>
+        ))}
+        <Box>
+          <Button onClick={() => update(path, [...items, createItem()])}>
+            Add {itemTitle.toLowerCase()}
+          </Button>
+        </Box>
+      </Box>
+    );
+  };
+
+  const privateTitle = value.candidate.job["private-title"];
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <PartnerEventPresets value={value} onChange={onChange} />
+      <NewCandidate onChange={onChange} recruiterDomain={recruiterDomain} />
+      <Box>
+        <Button onClick={() => setShowJson((show) => !show)}>
+          {showJson ? "Edit as form" : "Edit as JSON"}
+        </Button>
+      </Box>
+      {showJson ? (
+        <PartnerEventJson value={value} onChange={onChange} />
+      ) : (
+        <React.Fragment>
+          <Section title="Event">
+            {textField([], {
+              key: "id",
+              label: "Event id (a new id for each submit if empty)",
+            })}
+            {textField(["company"], {
+              key: "uuid",
+              label: "Company uuid (the customer secret if empty)",
+            })}
+            {textField(["company"], {
+              key: "ats-url",
+              label: "Company ATS url",
+            })}
+          </Section>
+          <Section title="Candidate">
+            {candidateFields.map((field) => textField(["candidate"], field))}
+          </Section>
+          {listEditor(
+            ["candidate", "referees"],
+            "Referees",
+            "Referee",
+            personFields,
+            createReferee
+          )}
+          <Section title="Job">
+            {jobFields.map((field) => textField(["candidate", "job"], field))}
+            <FormControlLabel
+              label="Private title"
+              control={
+                <Checkbox
+                  checked={privateTitle === true}
+                  onChange={(e) =>
+                    update(
+                      ["candidate", "job", "private-title"],
+                      e.target.checked ? true : undefined
+                    )
+                  }
+                />
+              }
+            />
+          </Section>
+          <Section title="Recruiter">
+            {recruiterFields.map((field) =>
+              textField(["candidate", "recruiter"], field)
+            )}
+          </Section>
+          {listEditor(
+            ["candidate", "job", "recruiting-team"],
+            "Recruiting team",
+            "Member",
+            recruiterFields,
+            createTeamMember
+          )}
+          <Section title="Partner result">
+            {textField(["partner-result"], {
+              key: "id",
+              label: "Result id",
+              required: true,
+            })}
+            <TextField
+              select
+              size="small"
+              label="Status"
+              value={value["partner-result"].status ?? ""}
+              onChange={(e) =>
+                update(
+                  ["partner-result", "status"],
+                  e.target.value === "" ? undefined : e.target.value
+                )
+              }
+            >
+              <MenuItem value="">Not set</MenuItem>
+              {atsResultStatusValues.map((status) => (
+                <MenuItem key={status} value={status}>
+                  {status}
+                </MenuItem>
+              ))}
+            </TextField>
+            {textField(["partner-result"], {
+              key: "update-url",
+              label: "Update url (the results sink if empty)",
+            })}
+          </Section>
+        </React.Fragment>
+      )}
+      {issues.length > 0 ? (
+        <Alert severity="error">
+          {issues.map((issue) => {
+            const text = formatPartnerEventIssue(issue);
+            return <div key={text}>{text}</div>;
+          })}
+        </Alert>
+      ) : (
+        <Alert severity="success">
+          The partner event is valid. webhook-data is added from the settings
+          when it is submitted.
+        </Alert>
+      )}
+    </Box>
+  );
+};
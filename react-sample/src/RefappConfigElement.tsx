@@ -0,0 +1,285 @@
+import { ScopedCssBaseline } from "@mui/material";
+import * as React from "react";
+import { createRoot, Root } from "react-dom/client";
+import { AtsConfigPreview } from "./AtsConfigPreview";
+import {
+  AtsConfigField,
+  AtsConfigOptionsPage,
+  AtsWebhookData,
+  RefappAtsConfig,
+} from "./lib/ats-types";
+import {
+  createConfigError,
+  fetchOptionsFromRefapp,
+  parseConfig,
+} from "./lib/config-client";
+import {
+  createRefappClient,
+  RefappClientError,
+  RefappResult,
+} from "./lib/refapp-client";
+import { AtsConfigOptionsQuery } from "./lib/remote-options";
+import { RefappErrorAlert } from "./RefappErrorAlert";
+
+export const refappConfigTagName = "refapp-config";
+
+export type RefappConfigEventDetail = Readonly<{
+  webhookData: AtsWebhookData;
+}>;
+
+/**
+ * Dispatched as "change" whenever the user changes a field and as "submit"
+ * when the user submits the values
+ */
+export type RefappConfigEvent = CustomEvent<RefappConfigEventDetail>;
+
+export type RefappConfigElementEventMap = Readonly<{
+  change: RefappConfigEvent;
+  submit: RefappConfigEvent;
+}>;
+
+type RefappConfigEventListener<K extends keyof RefappConfigElementEventMap> = (
+  this: RefappConfigElement,
+  event: RefappConfigElementEventMap[K]
+) => unknown;
+
+const observedAttributes = [
+  "config",
+  "endpoint",
+  "ats-secret",
+  "customer-secret",
+] as const;
+
+/**
+ * The config UI as a custom element, for ATSes that do not use React:
+ *
+ * `<refapp-config endpoint="https://..." ats-secret="..." customer-secret="...">`
+ *
+ * The config is taken from the config property, the config attribute (JSON)
+ * or fetched from the endpoint, in that order. The values are sent in the
+ * detail of "change" and "submit" events as the webhook-data of a partner
+ * event. The native change and submit events of the inputs inside are not
+ * let out of the element.
+ */
+export class RefappConfigElement extends HTMLElement {
+  static observedAttributes = observedAttributes;
+
+  private root: Root | undefined;
+  private configProperty: RefappAtsConfig | undefined;
+  private configAttribute: RefappAtsConfig | undefined;
+  private fetchedConfig: RefappAtsConfig | undefined;
+  // Shown when fetching the config failed and no config is given
+  private fetchError:
+    Readonly<{ error: RefappClientError; attempts?: number }> | undefined;
+  // Set to a copy of the fields to have the preview reset its values
+  private fields: ReadonlyArray<AtsConfigField> = [];
+  private fetchCount = 0;
+
+  constructor() {
+    super();
+    // React listens on its container inside this element, so it has seen
+    // the native events before they get here. Registered before any other
+    // listener so the listeners for our events never get a native event.
+    const stopNativeEvent = (event: Event) => {
+      if (event.target !== this) {
+        event.stopImmediatePropagation();
+        if (event.type === "submit") {
+          event.preventDefault();
+        }
+      }
+    };
+    this.addEventListener("change", stopNativeEvent);
+    this.addEventListener("submit", stopNativeEvent);
+  }
+
+  get config(): RefappAtsConfig | undefined {
+    return this.configProperty ?? this.configAttribute ?? this.fetchedConfig;
+  }
+
+  set config(config: RefappAtsConfig | undefined) {
+    this.configProperty = config;
+    this.update();
+  }
+
+  connectedCallback() {
+    const container = document.createElement("div");
+    this.replaceChildren(container);
+    this.root = createRoot(container);
+    this.load();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = undefined;
+  }
+
+  attributeChangedCallback(name: (typeof observedAttributes)[number]) {
+    if (name === "config") {
+      const json = this.getAttribute("config");
+      try {
+        this.configAttribute = json ? parseConfig(JSON.parse(json)) : undefined;
+      } catch (e) {
+        this.configAttribute = createConfigError(
+          e instanceof Error ? e.message : String(e)
+        );
+      }
+      this.update();
+    } else {
+      this.load();
+    }
+  }
+
+  addEventListener<K extends keyof RefappConfigElementEventMap>(
+    type: K,
+    listener: RefappConfigEventListener<K>,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ) {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof RefappConfigElementEventMap>(
+    type: K,
+    listener: RefappConfigEventListener<K>,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ) {
+    super.removeEventListener(type, listener, options);
+  }
+
+  private get credentials() {
+    const endpoint = this.getAttribute("endpoint");
+    const atsSecret = this.getAttribute("ats-secret");
+    const customerSecret = this.getAttribute("customer-secret");
+    return endpoint && atsSecret && customerSecret
+      ? { endpoint, atsSecret, customerSecret }
+      : undefined;
+  }
+
+  private load() {
+    const credentials = this.credentials;
+    const count = ++this.fetchCount;
+    if (!this.root || !credentials) {
+      this.fetchedConfig = undefined;
+      this.fetchError = undefined;
+      this.update();
+      return;
+    }
+    this.createClient()
+      .fetchConfig()
+      .then((result) => {
+        // Only the latest endpoint and credentials apply
+        if (count === this.fetchCount) {
+          this.fetchedConfig = result.ok ? result.data : undefined;
+          this.fetchError = result.ok === false ? result : undefined;
+          this.update();
+        }
+      });
+  }
+
+  private createClient() {
+    const { endpoint, atsSecret, customerSecret } = this.credentials;
+    return createRefappClient({
+      configEndpoint: endpoint,
+      atsSecret,
+      customerSecret,
+    });
+  }
+
+  private dispatch(
+    type: keyof RefappConfigElementEventMap,
+    data: AtsWebhookData
+  ) {
+    this.dispatchEvent(
+      new CustomEvent<RefappConfigEventDetail>(type, {
+        detail: { webhookData: data },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleRefetch = (
+    webhookData: AtsWebhookData
+  ): Promise<RefappResult<RefappAtsConfig>> =>
+    this.createClient().fetchConfig(webhookData);
+
+  private handleFetchOptions = (
+    field: AtsConfigField,
+    query: AtsConfigOptionsQuery
+  ): Promise<AtsConfigOptionsPage> => {
+    const { endpoint, atsSecret, customerSecret } = this.credentials;
+    return fetchOptionsFromRefapp(
+      endpoint,
+      atsSecret,
+      customerSecret,
+      field,
+      query
+    );
+  };
+
+  private handleReset = () => {
+    this.fields = [...this.fields];
+    this.render();
+  };
+
+  private update() {
+    this.fields = this.config?.config.fields ?? [];
+    this.render();
+  }
+
+  private render() {
+    if (!this.root) {
+      return;
+    }
+    // Refetching and remote options need the endpoint, also when the config
+    // is given
+    const canFetch = !!this.credentials;
+    this.root.render(
+      <ScopedCssBaseline>
+        {this.fetchError && !this.config && (
+          <RefappErrorAlert
+            error={this.fetchError.error}
+            attempts={this.fetchError.attempts}
+          />
+        )}
+        <AtsConfigPreview
+          configFields={this.fields}
+          onReset={this.handleReset}
+          onChange={(data) => this.dispatch("change", data)}
+          onSubmit={(data) => this.dispatch("submit", data)}
+          onRefetch={canFetch ? this.handleRefetch : undefined}
+          onFetchOptions={canFetch ? this.handleFetchOptions : undefined}
+        />
+      </ScopedCssBaseline>
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "refapp-config": RefappConfigElement;
+  }
+}
+
+if (!customElements.get(refappConfigTagName)) {
+  customElements.define(refappConfigTagName, RefappConfigElement);
+}
@@ -0,0 +1,78 @@
+import { Alert, AlertColor, AlertTitle } from "@mui/material";
+import * as React from "react";
+import {
+  RefappClientError,
+  refappClientErrorTitles,
+} from "./lib/refapp-client";
+import { formatErrorIssue } from "./lib/http-handlers";
+import { assertIsNever } from "./lib/typehelpers";
+
+const errorSeverity = (error: RefappClientError): AlertColor => {
+  switch (error.kind) {
+    case "auth":
+    case "validation":
+      return "error";
+    case "transport":
+    case "server":
+      return "warning";
+  }
+  return assertIsNever(error);
+};
+
+const errorHint = (error: RefappClientError): string | undefined => {
+  switch (error.kind) {
+    case "auth":
+      return "Check the ATS secret and the customer secret.";
+    case "validation":
+      return undefined;
+    case "transport":
+      return error.reason === "aborted"
+        ? undefined
+        : "Check the endpoint and your connection.";
+    case "server":
+      return error.retryAfterMs !== undefined
+        ? `Refapp asked to wait ${Math.ceil(
+            error.retryAfterMs / 1000
+          )} s before trying again.`
+        : "Try again later.";
+  }
+  return assertIsNever(error);
+};
+
+/**
+ * Shows a failed call to Refapp, with the issues of a rejected request
+ */
+export const RefappErrorAlert = ({
+  error,
+  attempts,
+  onClose,
+}: Readonly<{
+  error: RefappClientError;
+  attempts?: number;
+  /**
+   * Shows a close button when set
+   */
+  onClose?: () => void;
+}>) => {
+  const hint = errorHint(error);
+  return (
+    <Alert severity={errorSeverity(error)} onClose={onClose}>
+      <AlertTitle>
+        {refappClientErrorTitles[error.kind]}
+        {"status" in error && error.status ? ` (${error.status})` : ""}
+        {attempts > 1 ? ` after ${attempts} attempts` : ""}
+      </AlertTitle>
+      <div>{error.message}</div>
+      {error.kind === "validation" && error.issues.length > 0 && (
+        <ul>
+          {error.issues.map(formatErrorIssue).map((issue) => (
+            <li key={issue}>
+              <code>{issue}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+      {hint && <div>{hint}</div>}
+    </Alert>
+  );
+};
@@ -0,0 +1,182 @@
+import {
+  Autocomplete,
+  CircularProgress,
+  ListItemText,
+  TextField,
+} from "@mui/material";
+import * as React from "react";
+import {
+  AtsConfigField,
+  AtsConfigOptionsPage,
+  HtmlConfigOption,
+} from "./lib/ats-types";
+import { AtsConfigOptionsQuery } from "./lib/remote-options";
+
+// Wait for the user to stop typing before searching
+const searchDelay = 300;
+
+// Load the next page when the list is scrolled this close to the end
+const loadMoreThreshold = 48;
+
+type RemoteOptionsSelectProps = Readonly<{
+  field: AtsConfigField;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  fetchOptions: (query: AtsConfigOptionsQuery) => Promise<AtsConfigOptionsPage>;
+}>;
+
+/**
+ * A select whose options are searched for and paged in from the field's
+ * options-source
+ */
+export const RemoteOptionsSelect = ({
+  field,
+  value,
+  onChange,
+  error,
+  fetchOptions,
+}: RemoteOptionsSelectProps) => {
+  const [open, setOpen] = React.useState<boolean>(false);
+  const [search, setSearch] = React.useState<string>("");
+  const [page, setPage] = React.useState<number>(1);
+  const [options, setOptions] = React.useState<ReadonlyArray<HtmlConfigOption>>(
+    []
+  );
+  const [hasMore, setHasMore] = React.useState<boolean>(false);
+  const [loading, setLoading] = React.useState<boolean>(false);
+  // Remembered so the label can be shown after a new search
+  const [selectedOption, setSelectedOption] =
+    React.useState<HtmlConfigOption>();
+  // The parent creates a new function on every render
+  const fetchOptionsRef = React.useRef(fetchOptions);
+  React.useEffect(() => {
+    fetchOptionsRef.current = fetchOptions;
+  });
+
+  React.useEffect(() => {
+    if (!open) {
+      setLoading(false);
+      return;
+    }
+    // Already loading while waiting to search, so a scroll does not ask for
+    // the next page of the options of the previous search
+    setLoading(true);
+    let cancelled = false;
+    const timeout = setTimeout(
+      () => {
+        fetchOptionsRef
+          .current({ q: search, page })
+          .then((result) => {
+            if (!cancelled) {
+              setOptions((current) =>
+                page === 1 ? result.options : [...current, ...result.options]
+              );
+              setHasMore(result["has-more"]);
+            }
+          })
+          .catch(() => {
+            if (!cancelled) {
+              setHasMore(false);
+            }
+          })
+          .finally(() => {
+            if (!cancelled) {
+              setLoading(false);
+            }
+          });
+      },
+      page === 1 ? searchDelay : 0
+    );
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, search, page]);
+
+  const knownOptions = [...options, ...(field.options ?? [])];
+  if (selectedOption) {
+    knownOptions.push(selectedOption);
+  }
+  const selected = value
+    ? (knownOptions.find((option) => option.id === value) ?? {
+        id: value,
+        label: value,
+      })
+    : null;
+  const grouped = options.some((option) => option.group !== undefined);
+
+  const handleScroll = (event: React.UIEvent<HTMLElement>) => {
+    const list = event.currentTarget;
+    if (
+      hasMore &&
+      !loading &&
+      list.scrollTop + list.clientHeight >=
+        list.scrollHeight - loadMoreThreshold
+    ) {
+      setPage((current) => current + 1);
+    }
+  };
+
+  return (
+    <Autocomplete
+      sx={{ m: 1, minWidth: 120 }}
+      open={open}
+      onOpen={() => setOpen(true)}
+      onClose={() => {
+        setOpen(false);
+        setSearch("");
+        setPage(1);
+      }}
+      options={options}
+      value={selected}
+      disabled={field.disabled}
+      loading={loading}
+      // Searching is done by the options-source
+      filterOptions={(options) => options}
+      groupBy={grouped ? (option) => option.group ?? "" : undefined}
+      getOptionLabel={(option) => option.label}
+      getOptionDisabled={(option) => !!option.disabled}
+      isOptionEqualToValue={(option, selected) => option.id === selected.id}
+      onChange={(_event, option) => {
+        setSelectedOption(option ?? undefined);
+        onChange(option?.id ?? "");
+      }}
+      onInputChange={(_event, inputValue, reason) => {
+        // The input also changes when an option is selected
+        if (reason === "input" || reason === "clear") {
+          setSearch(inputValue);
+          setPage(1);
+        }
+      }}
+      renderOption={({ key, ...props }, option) => (
+        <li key={key} {...props}>
+          <ListItemText primary={option.label} secondary={option.description} />
+        </li>
+      )}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          name={field.id}
+          label={field.label}
+          placeholder={field.placeholder}
+          required={field.required}
+          error={!!error}
+          helperText={error}
+          slotProps={{
+            input: {
+              ...params.InputProps,
+              endAdornment: (
+                <React.Fragment>
+                  {loading && <CircularProgress color="inherit" size={20} />}
+                  {params.InputProps.endAdornment}
+                </React.Fragment>
+              ),
+            },
+          }}
+        />
+      )}
+      slotProps={{ listbox: { onScroll: handleScroll } }}
+    />
+  );
+};
@@ -0,0 +1,349 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import * as React from "react";
+import { downloadFile } from "./lib/download";
+import {
+  formatRefappClientError,
+  RefappReplayRequest,
+  RefappResult,
+} from "./lib/refapp-client";
+import {
+  diffHistoryEntries,
+  parseBody,
+  RequestHistoryEntry,
+  toCurlCommand,
+  toJsonFixture,
+  toReplayRequest,
+} from "./lib/request-history";
+import { RefappErrorAlert } from "./RefappErrorAlert";
+
+const codeSx = {
+  whiteSpace: "pre-wrap",
+  wordBreak: "break-all",
+  m: 0,
+  p: 1,
+  bgcolor: "grey.50",
+  borderColor: "grey.300",
+  borderWidth: 1,
+  borderStyle: "solid",
+  fontFamily: "monospace",
+  fontSize: "0.8rem",
+} as const;
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "–" : JSON.stringify(value);
+
+const formatBody = (body: string | undefined) => {
+  const parsed = parseBody(body);
+  if (parsed === undefined) {
+    return "";
+  }
+  return typeof parsed === "string"
+    ? parsed
+    : JSON.stringify(parsed, undefined, 2);
+};
+
+const formatHeaders = (headers: Readonly<Record<string, string>>) =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+
+const pathOf = (url: string) => {
+  try {
+    const { pathname, search } = new URL(url);
+    return pathname + search;
+  } catch (_) {
+    return url;
+  }
+};
+
+const EntryDetails = ({
+  entry,
+  onReplay,
+}: Readonly<{
+  entry: RequestHistoryEntry;
+  onReplay: (request: RefappReplayRequest) => Promise<RefappResult<unknown>>;
+}>) => {
+  const [edited, setEdited] = React.useState<RefappReplayRequest>();
+  const [copied, setCopied] = React.useState(false);
+  const [replaying, setReplaying] = React.useState(false);
+  const [replayResult, setReplayResult] =
+    React.useState<RefappResult<unknown>>();
+
+  React.useEffect(() => {
+    setEdited(undefined);
+    setCopied(false);
+    setReplayResult(undefined);
+  }, [entry]);
+
+  // The edit is kept when the replay fails, so it can be corrected
+  const handleReplay = (request: RefappReplayRequest) => {
+    setReplaying(true);
+    setReplayResult(undefined);
+    onReplay(request).then((result) => {
+      setReplaying(false);
+      setReplayResult(result);
+      if (result.ok) {
+        setEdited(undefined);
+      }
+    });
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={1}>
+      <Box display="flex" flexWrap="wrap" gap={1}>
+        <Button
+          onClick={() =>
+            navigator.clipboard
+              .writeText(toCurlCommand(entry))
+              .then(() => setCopied(true))
+          }
+        >
+          {copied ? "Copied" : "Copy as curl"}
+        </Button>
+        <Button
+          onClick={() =>
+            downloadFile(
+              `refapp-request-${entry.id}.json`,
+              toJsonFixture(entry)
+            )
+          }
+        >
+          Download fixture
+        </Button>
+        <Button
+          onClick={() => setEdited(edited ? undefined : toReplayRequest(entry))}
+        >
+          {edited ? "Cancel edit" : "Edit and replay"}
+        </Button>
+      </Box>
+      {replayResult &&
+        (replayResult.ok === false ? (
+          <RefappErrorAlert
+            error={replayResult.error}
+            attempts={replayResult.attempts}
+            onClose={() => setReplayResult(undefined)}
+          />
+        ) : (
+          <Alert severity="success" onClose={() => setReplayResult(undefined)}>
+            {`Replayed${
+              replayResult.attempts > 1
+                ? ` after ${replayResult.attempts} attempts`
+                : ""
+            }, the response is in the newest entry`}
+          </Alert>
+        ))}
+      {edited ? (
+        <>
+          <TextField
+            label="URL"
+            size="small"
+            value={edited.url}
+            onChange={(e) =>
+              setEdited({ ...edited, url: e.currentTarget.value })
+            }
+          />
+          {edited.method === "POST" && (
+            <TextField
+              label="Body"
+              multiline
+              minRows={8}
+              value={edited.body ?? ""}
+              onChange={(e) =>
+                setEdited({ ...edited, body: e.currentTarget.value })
+              }
+              slotProps={{
+                htmlInput: { style: { fontFamily: "monospace" } },
+              }}
+            />
+          )}
+          <Box>
+            <Button
+              variant="contained"
+              disabled={replaying}
+              onClick={() => handleReplay(edited)}
+            >
+              Replay
+            </Button>
+          </Box>
+        </>
+      ) : (
+        <>
+          <Typography variant="h3">Request</Typography>
+          <Box component="pre" sx={codeSx}>
+            {`${entry.method} ${entry.url}\n${formatHeaders(
+              entry.requestHeaders
+            )}`}
+          </Box>
+          {entry.requestBody !== undefined && (
+            <Box component="pre" sx={codeSx}>
+              {formatBody(entry.requestBody)}
+            </Box>
+          )}
+          <Typography variant="h3">Response</Typography>
+          {entry.error && (
+            <Alert severity="error">
+              {formatRefappClientError(entry.error)}
+            </Alert>
+          )}
+          {entry.status !== undefined && (
+            <>
+              <Box component="pre" sx={codeSx}>
+                {`${entry.status}\n${formatHeaders(entry.responseHeaders)}`}
+              </Box>
+              <Box component="pre" sx={codeSx}>
+                {formatBody(entry.responseBody)}
+              </Box>
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+const EntryDiff = ({
+  before,
+  after,
+}: Readonly<{ before: RequestHistoryEntry; after: RequestHistoryEntry }>) => {
+  const differences = diffHistoryEntries(before, after);
+  return (
+    <Box>
+      <Typography variant="h3">
+        Differences between #{before.id} and #{after.id}
+      </Typography>
+      {differences.length === 0 ? (
+        <Typography>No differences</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Path</TableCell>
+              <TableCell>#{before.id}</TableCell>
+              <TableCell>#{after.id}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {differences.map(({ path, before, after }) => (
+              <TableRow key={path}>
+                <TableCell sx={{ fontFamily: "monospace" }}>{path}</TableCell>
+                <TableCell sx={{ wordBreak: "break-all" }}>
+                  {formatValue(before)}
+                </TableCell>
+                <TableCell sx={{ wordBreak: "break-all" }}>
+                  {formatValue(after)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * The calls made to Refapp, newest first. Check two entries to compare them.
+ */
+export const RequestHistory = ({
+  entries,
+  onReplay,
+  onClear,
+}: Readonly<{
+  entries: ReadonlyArray<RequestHistoryEntry>;
+  /**
+   * Resolves to the result of the replay, which is shown with the entry
+   */
+  onReplay: (request: RefappReplayRequest) => Promise<RefappResult<unknown>>;
+  onClear: () => void;
+}>) => {
+  const [openId, setOpenId] = React.useState<number>();
+  const [compareIds, setCompareIds] = React.useState<ReadonlyArray<number>>([]);
+  const open = entries.find(({ id }) => id === openId);
+  const compared = compareIds
+    .map((compareId) => entries.find(({ id }) => id === compareId))
+    .filter((entry) => entry !== undefined)
+    .sort((a, b) => a.id - b.id);
+
+  const toggleCompare = (id: number) =>
+    setCompareIds((ids) =>
+      ids.includes(id)
+        ? ids.filter((compareId) => compareId !== id)
+        : [...ids, id].slice(-2)
+    );
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <Typography variant="h2">Request history</Typography>
+        <Button
+          onClick={() => {
+            setOpenId(undefined);
+            setCompareIds([]);
+            onClear();
+          }}
+        >
+          Clear
+        </Button>
+      </Box>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox">Compare</TableCell>
+            <TableCell>#</TableCell>
+            <TableCell>Time</TableCell>
+            <TableCell>Request</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell align="right">Duration</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {entries.map((entry) => (
+            <TableRow
+              key={entry.id}
+              hover
+              selected={entry.id === openId}
+              onClick={() =>
+                setOpenId(entry.id === openId ? undefined : entry.id)
+              }
+              sx={{ cursor: "pointer" }}
+            >
+              <TableCell padding="checkbox">
+                <Checkbox
+                  checked={compareIds.includes(entry.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleCompare(entry.id)}
+                />
+              </TableCell>
+              <TableCell>{entry.id}</TableCell>
+              <TableCell>
+                {new Date(entry.startedAt).toLocaleTimeString()}
+              </TableCell>
+              <TableCell sx={{ wordBreak: "break-all" }}>
+                {entry.method} {pathOf(entry.url)}
+                {entry.attempt > 1 && ` (attempt ${entry.attempt})`}
+              </TableCell>
+              <TableCell>{entry.status ?? entry.error?.kind ?? "–"}</TableCell>
+              <TableCell align="right">{entry.durationMs} ms</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {compared.length === 2 && (
+        <EntryDiff before={compared[0]} after={compared[1]} />
+      )}
+      {open && <EntryDetails entry={open} onReplay={onReplay} />}
+    </Box>
+  );
+};
@@ -0,0 +1,113 @@
+import { Box, Chip, Step, StepLabel, Stepper, Typography } from "@mui/material";
+import * as React from "react";
+import { atsResultStatusValues, CandidateAssessment } from "./lib/ats-types";
+import { CandidateResultsTimeline } from "./lib/results-sink";
+import { statusColor } from "./CandidateResultsView";
+
+const assessmentCounts = [
+  ["total", "Total"],
+  ["completed", "Completed"],
+  ["declined", "Declined"],
+  ["remainingToSubmit", "Remaining to submit"],
+] as const;
+
+const AssessmentCounts = ({
+  assessment,
+  previous,
+}: Readonly<{
+  assessment: CandidateAssessment | undefined;
+  previous: CandidateAssessment | undefined;
+}>) => (
+  <Box display="flex" gap={2} flexWrap="wrap">
+    {assessmentCounts.map(([key, label]) => {
+      const value = assessment?.[key];
+      const before = previous?.[key];
+      const delta =
+        value !== undefined && before !== undefined ? value - before : 0;
+      return (
+        <Typography
+          key={key}
+          variant="body2"
+          fontWeight={delta !== 0 ? 600 : undefined}
+        >
+          {label}: {value ?? "–"}
+          {delta !== 0 && ` (${delta > 0 ? "+" : ""}${delta})`}
+        </Typography>
+      );
+    })}
+  </Box>
+);
+
+type ResultsTimelineProps = Readonly<{
+  timeline: CandidateResultsTimeline;
+}>;
+
+/**
+ * Shows the updates received on the update-url for a candidate, oldest first
+ */
+export const ResultsTimeline = ({ timeline }: ResultsTimelineProps) => {
+  const latest = timeline[timeline.length - 1];
+  const reached = new Set(
+    timeline.map(({ results }) => results.attributes.status)
+  );
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Typography variant="h2">Updates</Typography>
+      <Stepper
+        activeStep={
+          latest
+            ? atsResultStatusValues.indexOf(latest.results.attributes.status)
+            : -1
+        }
+        alternativeLabel
+      >
+        {atsResultStatusValues.map((status) => (
+          <Step key={status} completed={reached.has(status)}>
+            <StepLabel error={status === "failed" && reached.has(status)}>
+              {status}
+            </StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+      {timeline.length === 0 && (
+        <Typography>Waiting for the first update…</Typography>
+      )}
+      {timeline.map(({ receivedAt, results }, index) => {
+        const previous = timeline[index - 1]?.results.attributes;
+        const { status, summary, assessment } = results.attributes;
+        return (
+          <Box
+            key={receivedAt + index}
+            display="flex"
+            flexDirection="column"
+            gap={0.5}
+            pl={2}
+            borderLeft={2}
+            borderColor="grey.300"
+          >
+            <Box display="flex" gap={1} alignItems="center">
+              <Typography variant="body2" color="text.secondary">
+                {new Date(receivedAt).toLocaleTimeString()}
+              </Typography>
+              {previous && previous.status !== status && (
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={previous.status}
+                  color={statusColor(previous.status)}
+                />
+              )}
+              {previous && previous.status !== status && "→"}
+              <Chip size="small" label={status} color={statusColor(status)} />
+            </Box>
+            <Typography>{summary}</Typography>
+            <AssessmentCounts
+              assessment={assessment}
+              previous={previous?.assessment}
+            />
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
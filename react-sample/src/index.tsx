@@ -3,6 +3,8 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 
 import App from './App';
+// Registers <refapp-config> so it can also be tried on this page
+import './RefappConfigElement';
 
 const rootElement = document.getElementById('root');
 const root = createRoot(rootElement);
@@ -14,14 +14,62 @@ const optionalWithNull = <T extends ZodType>(t: T) =>
     // transform loses the optionality in zod 4 so reapply it
     .optional();
 
-export type InfoClass = "info" | "warning" | "error" | "success" | "default";
+export const infoClassValues = [
+  "info",
+  "warning",
+  "error",
+  "success",
+  "default",
+] as const;
+export type InfoClass = (typeof infoClassValues)[number];
 
-export type AtsConfigFieldValue = string | boolean | number;
+const atsConfigScalarValueSchema = z.union([
+  z.string(),
+  z.boolean(),
+  z.number(),
+]);
+export type AtsConfigScalarValue = z.infer<typeof atsConfigScalarValueSchema>;
+
+/**
+ * Arrays are the option ids selected in a multi-select field
+ */
+const atsConfigFieldValueSchema = z.union([
+  atsConfigScalarValueSchema,
+  z.array(z.string()),
+]);
+export type AtsConfigFieldValue = z.infer<typeof atsConfigFieldValueSchema>;
 
 /**
  * Strict subset of html input types
  */
-export type HtmlConfigFieldType = "select" | "checkbox" | "text" | "hidden";
+export type HtmlConfigFieldType =
+  | "select"
+  | "checkbox"
+  | "radio"
+  | "text"
+  | "textarea"
+  | "url"
+  | "number"
+  | "date"
+  | "hidden";
+
+/**
+ * Input field types supported in the config UI. Refapp Addition:
+ * "multi-select" is a select where any number of options can be selected
+ */
+export const refappInputFieldTypes = [
+  "select",
+  "multi-select",
+  "checkbox",
+  "radio",
+  "text",
+  "textarea",
+  "url",
+  "number",
+  "date",
+] as const;
+
+export type RefappInputFieldTypes = (typeof refappInputFieldTypes)[number];
 
 export const refappLabelFieldTypes = [
   "header",
@@ -34,42 +82,168 @@ export type RefappLabelFieldTypes = (typeof refappLabelFieldTypes)[number];
 export type HtmlConfigOption = Readonly<{
   id: string;
   label: string;
+  /**
+   * Refapp Addition
+   * Options with the same group are shown together under the group as a
+   * heading, like an html optgroup. Groups are shown in the order they first
+   * appear in the options.
+   */
+  group?: string;
+  /**
+   * Refapp Addition
+   * Secondary text shown with the label, e.g. the number of questions
+   */
+  description?: string;
+  /**
+   * Refapp Addition
+   * The option is shown but cannot be selected
+   */
+  disabled?: boolean;
 }>;
 
+/**
+ * Refapp Addition
+ * Options for a select field that are fetched from a paged, searchable
+ * endpoint instead of being inlined in every config response
+ */
+export type AtsConfigOptionsSource = Readonly<{
+  /**
+   * Resolved relative to the config endpoint. Called with GET, the same
+   * headers as the config endpoint, the job_id, lang and recruiter of the
+   * config call and atsConfigOptionsQueryParams. Responds with an
+   * AtsConfigOptionsPage.
+   */
+  "url": string;
+  /**
+   * Number of options to request per page, 50 by default
+   */
+  "page-size"?: number;
+}>;
+
+/**
+ * Refapp Addition
+ * Declarative condition on the values of other fields, evaluated client side
+ * so simple dependencies between fields do not need a refetch. "field" is the
+ * id of another field and its current value is compared, e.g.
+ * `{ "field": "external-recruitment-enabled", "equals": true }`
+ * For multi-select fields "equals" is met when the option is among the
+ * selected options.
+ */
+export type AtsConfigCondition =
+  | Readonly<{ field: string; equals: AtsConfigScalarValue }>
+  | Readonly<{ "field": string; "not-equals": AtsConfigScalarValue }>
+  | Readonly<{ "field": string; "one-of": ReadonlyArray<AtsConfigScalarValue> }>
+  | Readonly<{ all: ReadonlyArray<AtsConfigCondition> }>
+  | Readonly<{ any: ReadonlyArray<AtsConfigCondition> }>
+  | Readonly<{ not: AtsConfigCondition }>;
+
+// Cast since zod infers the value keys as optional without strictNullChecks
+export const atsConfigConditionSchema = z.lazy(() =>
+  z.union([
+    z.strictObject({ field: z.string(), equals: atsConfigScalarValueSchema }),
+    z.strictObject({
+      "field": z.string(),
+      "not-equals": atsConfigScalarValueSchema,
+    }),
+    z.strictObject({
+      "field": z.string(),
+      "one-of": z.array(atsConfigScalarValueSchema),
+    }),
+    z.strictObject({ all: z.array(atsConfigConditionSchema) }),
+    z.strictObject({ any: z.array(atsConfigConditionSchema) }),
+    z.strictObject({ not: atsConfigConditionSchema }),
+  ])
+) as ZodType<AtsConfigCondition>;
+
 export type HtmlConfigField<T extends string> = Readonly<{
-  id: string;
-  type: T;
-  value?: AtsConfigFieldValue;
-  label: string;
+  "id": string;
+  "type": T;
   /**
-   * For "text" (textbox) fields
+   * An option id for select and radio fields, an array of option ids for
+   * multi-select fields, a boolean for checkboxes, a number (or numeric
+   * string) for number fields, an ISO 8601 date (yyyy-mm-dd) for date fields
+   * and a string for other fields
    */
-  placeholder?: string;
+  "value"?: AtsConfigFieldValue;
+  "label": string;
   /**
-   * For select fields
+   * For "text" (textbox), "textarea", "url" and "number" fields
    */
-  options?: ReadonlyArray<HtmlConfigOption>;
-  disabled?: boolean;
+  "placeholder"?: string;
+  /**
+   * For select, multi-select and radio fields
+   */
+  "options"?: ReadonlyArray<HtmlConfigOption>;
+  /**
+   * Refapp Addition
+   * For select fields, fetch the options from an endpoint. "options" then
+   * only needs to contain the selected option, so its label can be shown
+   * without a request.
+   */
+  "options-source"?: AtsConfigOptionsSource;
+  "disabled"?: boolean;
   /**
    * Indicates whether the field is required
    */
-  required?: boolean;
+  "required"?: boolean;
+  /**
+   * Refapp Addition
+   * For "text", "textarea" and "url" fields, the minimum number of
+   * characters in a non-empty value
+   */
+  "min-length"?: number;
+  /**
+   * Refapp Addition
+   * For "text", "textarea" and "url" fields, the maximum number of
+   * characters
+   */
+  "max-length"?: number;
+  /**
+   * Refapp Addition
+   * For "text", "textarea" and "url" fields, a regular expression
+   * (JavaScript syntax without delimiters or flags) that a non-empty value
+   * must match in its entirety
+   */
+  "pattern"?: string;
+  /**
+   * Refapp Addition
+   * The smallest allowed value. A non-empty value must then be numeric.
+   */
+  "min"?: number;
+  /**
+   * Refapp Addition
+   * The largest allowed value. A non-empty value must then be numeric.
+   */
+  "max"?: number;
   /**
    * Teamtailor-specific: When true, performs a new GET request to the config
    * endpoint when this field's value is changed, passing the current field
    * values in the webhook_data query parameter.
    */
-  refetch?: boolean;
+  "refetch"?: boolean;
+  /**
+   * Refapp Addition
+   * The field is only shown when the condition is met. Hidden fields are not
+   * sent in webhook-data.
+   */
+  "visible-when"?: AtsConfigCondition;
+  /**
+   * Refapp Addition
+   * The field is disabled unless the condition is met. Disabled fields are not
+   * sent in webhook-data.
+   */
+  "enabled-when"?: AtsConfigCondition;
 }>;
 
 /**
- * With additional field types to express labels but removing the "hidden" type
- * These will map to "infobox" for Teamtailor
+ * With additional field types to express labels and multi-select but removing
+ * the "hidden" type
+ * The label types will map to "infobox" for Teamtailor
  */
 export type RefappConfigFieldType = AtsConfigField["type"];
 
 export type AtsConfigField =
-  | HtmlConfigField<Exclude<HtmlConfigFieldType, "hidden" | "url" | "radio">>
+  | HtmlConfigField<RefappInputFieldTypes>
   | (HtmlConfigField<RefappLabelFieldTypes> &
       Readonly<{
         /**
@@ -94,7 +268,68 @@ export type AtsConfigResult<T extends HtmlConfigField<string>> = {
 
 export type RefappAtsConfig = AtsConfigResult<AtsConfigField>;
 
-const atsCompanySchema = z.object({
+const htmlConfigOptionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  group: z.string().optional(),
+  description: z.string().optional(),
+  disabled: z.boolean().optional(),
+});
+
+const atsConfigOptionsSourceSchema = z.object({
+  "url": z.string(),
+  "page-size": z.number().int().positive().optional(),
+});
+
+const htmlConfigFieldBaseSchema = z.object({
+  "id": z.string(),
+  "value": atsConfigFieldValueSchema.optional(),
+  "label": z.string(),
+  "placeholder": z.string().optional(),
+  "options": z.array(htmlConfigOptionSchema).optional(),
+  "options-source": atsConfigOptionsSourceSchema.optional(),
+  "disabled": z.boolean().optional(),
+  "required": z.boolean().optional(),
+  "min-length": z.number().optional(),
+  "max-length": z.number().optional(),
+  "pattern": z.string().optional(),
+  "min": z.number().optional(),
+  "max": z.number().optional(),
+  "refetch": z.boolean().optional(),
+  "visible-when": atsConfigConditionSchema.optional(),
+  "enabled-when": atsConfigConditionSchema.optional(),
+});
+
+const atsInputConfigFieldSchema = htmlConfigFieldBaseSchema.extend({
+  type: z.enum(refappInputFieldTypes),
+});
+
+const atsLabelConfigFieldSchema = htmlConfigFieldBaseSchema.extend({
+  "type": z.enum(refappLabelFieldTypes),
+  "label-markdown": z.string().optional(),
+  "label-html": z.string().optional(),
+  "label-class": z.enum(infoClassValues).optional(),
+});
+
+export const atsConfigFieldSchema = z.discriminatedUnion(
+  "type",
+  [atsInputConfigFieldSchema, atsLabelConfigFieldSchema],
+  {
+    error: (issue) =>
+      issue.code === "invalid_union" ? "Unknown field type" : undefined,
+  }
+);
+
+/**
+ * The payload returned from the /config endpoint
+ */
+export const refappAtsConfigSchema: ZodType<RefappAtsConfig> = z.object({
+  config: z.object({
+    fields: z.array(atsConfigFieldSchema),
+  }),
+});
+
+export const atsCompanySchema = z.object({
   /**
    * Name of the company.
    */
@@ -157,7 +392,7 @@ export const atsRecruiterSchema = z.object({
 
 export type AtsRecruiter = z.infer<typeof atsRecruiterSchema>;
 
-const atsJobSchema = z.object({
+export const atsJobSchema = z.object({
   /**
    * Unique job id.
    * Expanded from Teamtailor number to number or string
@@ -215,7 +450,7 @@ const atsJobSchema = z.object({
 
 export type AtsJob = z.infer<typeof atsJobSchema>;
 
-const atsRefereeSchema = z.object({
+export const atsRefereeSchema = z.object({
   /**
    * First name of the referee.
    */
@@ -249,7 +484,7 @@ const atsRefereeSchema = z.object({
 });
 export type AtsReferee = z.infer<typeof atsRefereeSchema>;
 
-const atsCandidateSchema = z.object({
+export const atsCandidateSchema = z.object({
   /**
    * Unique candidate id.
    * Expanded from Teamtailor number to number or string
@@ -318,10 +553,14 @@ export const atsResultStatusValues = [
 ] as const;
 export type AtsResultStatus = (typeof atsResultStatusValues)[number];
 
+/**
+ * Arrays are the option ids selected in a multi-select field
+ */
 export const atsWebhookDataValueSchema = z.union([
   z.string(),
   z.boolean(),
   z.number(),
+  z.array(z.string()),
 ]);
 export type AtsWebhookDataValue = z.infer<typeof atsWebhookDataValueSchema>;
 
@@ -391,6 +630,59 @@ export type AtsPartnerEventPayloadIncoming = z.input<
   typeof atsPartnerEventPayloadSchema
 >;
 
+/**
+ * Refapp Addition
+ * The codes of error responses. Clients should handle codes that are not in
+ * this list like the HTTP status of the response.
+ */
+export const refappErrorCodeValues = [
+  "invalid-json",
+  "invalid-query",
+  "invalid-partner-event",
+  "invalid-webhook-data",
+  "invalid-signature",
+  "invalid-results",
+  "unauthorized",
+  "unknown-customer",
+  "not-found",
+  "method-not-allowed",
+  "rate-limited",
+  "internal-error",
+] as const;
+export type RefappErrorCode = (typeof refappErrorCodeValues)[number];
+
+export const refappErrorIssueSchema = z.object({
+  /**
+   * Path to the offending value in the request body, e.g.
+   * ["partner-event", "candidate", "referees", 0, "email"] or
+   * ["partner-event", "webhook-data", "cost-centre"] for a field of the
+   * config UI. Query parameters are referred to by name, e.g. ["job_id"].
+   * Empty for issues with the request as a whole.
+   */
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+  /**
+   * E.g. "unknown-option" for an option id that is not in the config
+   */
+  code: optionalWithNull(z.string()),
+});
+export type RefappErrorIssue = z.infer<typeof refappErrorIssueSchema>;
+
+/**
+ * Refapp Addition
+ * The body of 4xx and 5xx responses from the config and partner event
+ * endpoints
+ */
+export const refappErrorResponseSchema = z.object({
+  /**
+   * One of refappErrorCodeValues, or a code added later
+   */
+  code: z.string(),
+  message: z.string(),
+  issues: optionalWithNull(z.array(refappErrorIssueSchema)),
+});
+export type RefappErrorResponse = z.infer<typeof refappErrorResponseSchema>;
+
 export const candidateAttachmentSchema = z.object({
   url: z.string(),
   description: z.string(),
@@ -490,5 +782,49 @@ export const atsConfigQueryParams = z.object({
   job_id: z.string().optional(),
   lang: z.string().optional(),
   recruiter: z.string().optional(),
+  /**
+   * JSON encoded AtsWebhookData with the current field values. Sent when
+   * refetching the config after a field with refetch set has changed.
+   */
+  webhook_data: z.string().optional(),
 });
 export type AtsConfigQueryParams = z.infer<typeof atsConfigQueryParams>;
+
+/**
+ * Refapp Addition
+ * Query parameters for calls to an options-source url, in addition to the
+ * job_id, lang and recruiter of the config call
+ */
+export const atsConfigOptionsQueryParams = atsConfigQueryParams
+  .pick({ job_id: true, lang: true, recruiter: true })
+  .extend({
+    /**
+     * Search text, matched against the option labels
+     */
+    q: z.string().optional(),
+    /**
+     * 1-based page number
+     */
+    page: z.coerce.number().int().positive().optional(),
+    page_size: z.coerce.number().int().positive().optional(),
+  });
+export type AtsConfigOptionsQueryParams = z.infer<
+  typeof atsConfigOptionsQueryParams
+>;
+
+/**
+ * Refapp Addition
+ * The payload returned from an options-source url
+ */
+export const atsConfigOptionsPageSchema = z.object({
+  "options": z.array(htmlConfigOptionSchema),
+  /**
+   * True when there are more options matching the search on later pages
+   */
+  "has-more": z.boolean(),
+  /**
+   * Number of options matching the search, when known
+   */
+  "total": optionalWithNull(z.number()),
+});
+export type AtsConfigOptionsPage = z.infer<typeof atsConfigOptionsPageSchema>;
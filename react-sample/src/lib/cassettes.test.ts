@@ -0,0 +1,119 @@
+/**
+ * @jest-environment ./src/test-environment.js
+ */
+import { describe, expect, it } from "@jest/globals";
+import {
+  createCassettePlayer,
+  createCassetteRecorder,
+  scrubInteractions,
+} from "./cassettes";
+import { toMockFetch } from "./http-handlers";
+
+const secrets = { atsSecret: "ats-secret", customerSecret: "customer-secret" };
+const configUrl = "http://localhost:4000/config/customer-secret";
+const recruiter = "jane.doe@acme.com";
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+const configInvite = (email: string) => ({
+  fields: [
+    {
+      id: "recruiter-invite",
+      type: "paragraph",
+      label: `${email} will be invited to Refapp.`,
+    },
+  ],
+});
+
+describe("scrubInteractions", () => {
+  it("scrubs personal query parameters and the responses echoing them", () => {
+    const webhookData = {
+      note: "Call Jane Doe",
+      contact: { name: "Jane Doe", email: recruiter },
+    };
+    const url = `${configUrl}?job_id=7&recruiter=${encodeURIComponent(
+      recruiter
+    )}&webhook_data=${encodeURIComponent(JSON.stringify(webhookData))}`;
+    const [interaction] = scrubInteractions(
+      [
+        {
+          request: { method: "GET", url },
+          response: {
+            status: 200,
+            headers: {},
+            body: JSON.stringify(configInvite(recruiter)),
+          },
+        },
+      ],
+      secrets
+    );
+    const scrubbedUrl = new URL(interaction.request.url);
+    expect(scrubbedUrl.pathname).toBe("/config/[customer-secret]");
+    expect(scrubbedUrl.searchParams.get("job_id")).toBe("7");
+    expect(scrubbedUrl.searchParams.get("recruiter")).toBe(
+      "person-1@example.com"
+    );
+    expect(JSON.parse(scrubbedUrl.searchParams.get("webhook_data"))).toEqual({
+      note: "Call Person 1",
+      contact: { name: "Person 1", email: "person-1@example.com" },
+    });
+    expect(JSON.parse(interaction.response.body)).toEqual(
+      configInvite("person-1@example.com")
+    );
+    expect(JSON.stringify(interaction)).not.toMatch(/jane|doe|acme/i);
+  });
+});
+
+describe("createCassetteRecorder", () => {
+  it("records polling only when the response changes", async () => {
+    const responses = ["1", "1", "2", "2", "1"];
+    const recorder = createCassetteRecorder({
+      fetch: async () => new Response(responses.shift()),
+    });
+    const url = "http://localhost:4000/results/1";
+    for (let i = 0; i < 5; i++) {
+      await recorder.fetch(url);
+    }
+    await recorder.fetch(url, { method: "POST", body: "{}" });
+    await recorder.fetch(url, { method: "POST", body: "{}" });
+    expect(
+      recorder
+        .cassette()
+        .interactions.map(({ request, response }) => [
+          request.method,
+          response.body,
+        ])
+    ).toEqual([
+      ["GET", "1"],
+      ["GET", "2"],
+      ["GET", "1"],
+      ["POST", ""],
+      ["POST", ""],
+    ]);
+  });
+});
+
+describe("createCassettePlayer", () => {
+  it("replays config calls for the recruiter that was scrubbed", async () => {
+    const recorder = createCassetteRecorder({
+      fetch: async (input) =>
+        jsonResponse(
+          configInvite(
+            new URL(String(input)).searchParams.get("recruiter") ?? "nobody"
+          )
+        ),
+    });
+    const url = `${configUrl}?recruiter=${encodeURIComponent(recruiter)}`;
+    await recorder.fetch(url);
+    const player = toMockFetch(
+      createCassettePlayer(recorder.cassette(secrets), secrets)
+    );
+    const replayed = await player(url);
+    expect(replayed.status).toBe(200);
+    expect(await replayed.json()).toEqual(configInvite("person-1@example.com"));
+    expect((await player(configUrl)).status).toBe(404);
+  });
+});
@@ -0,0 +1,455 @@
+import * as _ from "lodash";
+import { z } from "zod";
+import { EnvironmentSecrets } from "./environment-profiles";
+import { errorResponse, RequestHandler, toIssues } from "./http-handlers";
+import { secretPlaceholders } from "./refapp-client";
+import { assertIsNever } from "./typehelpers";
+
+/**
+ * Record and replay of HTTP exchanges through the fetch option of the Refapp
+ * client, so the sample app and tests can run offline with the same results
+ * every time. A recorder passes calls on to fetch and keeps them; a player
+ * answers calls from a cassette without any network access.
+ *
+ * Cassettes never hold the ATS secret or the customer secret, and the names,
+ * emails and phone numbers of people in the bodies and query strings are
+ * replaced by stand-ins. Request headers are not kept, since they are mostly
+ * credentials.
+ */
+
+export const cassetteModeValues = ["off", "record", "replay"] as const;
+export type CassetteMode = (typeof cassetteModeValues)[number];
+
+const cassetteInteractionSchema = z.object({
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    body: z.string().optional(),
+  }),
+  response: z.object({
+    status: z.number().int(),
+    statusText: z.string().optional(),
+    headers: z.record(z.string(), z.string()),
+    body: z.string(),
+  }),
+});
+
+export type CassetteInteraction = Readonly<{
+  request: Readonly<{ method: string; url: string; body?: string }>;
+  response: Readonly<{
+    status: number;
+    statusText?: string;
+    headers: Readonly<Record<string, string>>;
+    body: string;
+  }>;
+}>;
+
+export const cassetteSchema = z.object({
+  version: z.literal(1),
+  recordedAt: z.string(),
+  interactions: z.array(cassetteInteractionSchema),
+});
+
+export type Cassette = Readonly<{
+  version: 1;
+  /**
+   * ISO date
+   */
+  recordedAt: string;
+  interactions: ReadonlyArray<CassetteInteraction>;
+}>;
+
+export const emptyCassette: Cassette = {
+  version: 1,
+  recordedAt: new Date(0).toISOString(),
+  interactions: [],
+};
+
+export type CassetteParse =
+  | Readonly<{ valid: true; cassette: Cassette }>
+  | Readonly<{ valid: false; issues: ReadonlyArray<string> }>;
+
+/**
+ * Reads a cassette file
+ */
+export const parseCassette = (json: string): CassetteParse => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      valid: false,
+      issues: [e instanceof Error ? e.message : String(e)],
+    };
+  }
+  const result = cassetteSchema.safeParse(parsed);
+  return result.success
+    ? { valid: true, cassette: result.data as Cassette }
+    : { valid: false, issues: toIssues(result.error) };
+};
+
+export const serializeCassette = (cassette: Cassette) =>
+  JSON.stringify(cassette, undefined, 2);
+
+// Keys holding personal data in partner events and their responses. name is
+// only personal in objects that also have an email, unlike a company name.
+const piiKeyValues = [
+  "first-name",
+  "last-name",
+  "name",
+  "email",
+  "phone",
+] as const;
+type PiiKey = (typeof piiKeyValues)[number];
+
+const isPiiKey = (key: string): key is PiiKey =>
+  (piiKeyValues as ReadonlyArray<string>).includes(key);
+
+const toStandIn = (key: PiiKey, index: number): string => {
+  switch (key) {
+    case "first-name":
+      return `First${index}`;
+    case "last-name":
+      return `Last${index}`;
+    case "name":
+      return `Person ${index}`;
+    case "email":
+      return `person-${index}@example.com`;
+    case "phone":
+      return `+4670174${String(600 + index).padStart(4, "0")}`;
+  }
+  return assertIsNever(key);
+};
+
+const parseJson = (text: string | undefined): unknown => {
+  if (text === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (_) {
+    return undefined;
+  }
+};
+
+/**
+ * Adds the personal values found in a JSON value, with their stand-ins
+ */
+const collectPii = (
+  value: unknown,
+  standIns: Map<string, string>,
+  counts: Map<PiiKey, number>
+) => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectPii(item, standIns, counts));
+  } else if (_.isPlainObject(value)) {
+    const record = value as Record<string, unknown>;
+    Object.entries(record).forEach(([key, item]) => {
+      if (
+        isPiiKey(key) &&
+        (key !== "name" || "email" in record) &&
+        typeof item === "string" &&
+        item.trim().length > 1
+      ) {
+        if (!standIns.has(item)) {
+          const count = (counts.get(key) ?? 0) + 1;
+          counts.set(key, count);
+          standIns.set(item, toStandIn(key, count));
+        }
+      } else {
+        collectPii(item, standIns, counts);
+      }
+    });
+  }
+};
+
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === "string") {
+    return map(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map));
+  }
+  if (_.isPlainObject(value)) {
+    return _.mapValues(value as object, (item) => mapStrings(item, map));
+  }
+  return value;
+};
+
+/**
+ * The secrets as placeholders, e.g. to match a live request against a
+ * cassette
+ */
+export const redactSecrets = (text: string, secrets?: EnvironmentSecrets) =>
+  [
+    [secrets?.atsSecret, secretPlaceholders.atsSecret],
+    [secrets?.customerSecret, secretPlaceholders.customerSecret],
+  ].reduce(
+    (redacted, [secret, placeholder]) =>
+      secret ? redacted.split(secret).join(placeholder) : redacted,
+    text
+  );
+
+// Query parameters holding personal data, e.g. the recruiter email of config
+// calls, or values of config fields such as free text
+const personalQueryParams = ["recruiter", "webhook_data"];
+
+const parseUrl = (url: string) => {
+  try {
+    return new URL(url);
+  } catch (_) {
+    return undefined;
+  }
+};
+
+/**
+ * The url with the values of the personal query parameters replaced, or
+ * undefined if it has none
+ */
+const mapPersonalQuery = (
+  url: string,
+  map: (name: string, value: string) => string
+) => {
+  const parsed = parseUrl(url);
+  if (!personalQueryParams.some((name) => parsed?.searchParams.has(name))) {
+    return undefined;
+  }
+  personalQueryParams.forEach((name) => {
+    const value = parsed.searchParams.get(name);
+    if (value !== null) {
+      parsed.searchParams.set(name, map(name, value));
+    }
+  });
+  return parsed.toString();
+};
+
+/**
+ * The url a live request is matched on against a cassette: with the secrets
+ * as placeholders and without the values of personal query parameters, since
+ * the recorded ones are scrubbed
+ */
+const toMatchUrl = (url: string, secrets?: EnvironmentSecrets) => {
+  const redacted = redactSecrets(url, secrets);
+  return mapPersonalQuery(redacted, (name) => `[${name}]`) ?? redacted;
+};
+
+// Not needed to replay, and can hold credentials
+const droppedResponseHeaders = ["set-cookie", "www-authenticate"];
+
+/**
+ * The interactions with the secrets replaced by placeholders and personal
+ * data in the bodies and query strings by stand-ins. A personal value found
+ * anywhere, e.g. a referee name in a request or the recruiter of a config
+ * call, is replaced in all bodies, including in free text of responses.
+ */
+export const scrubInteractions = (
+  interactions: ReadonlyArray<CassetteInteraction>,
+  secrets?: EnvironmentSecrets
+): ReadonlyArray<CassetteInteraction> => {
+  const standIns = new Map<string, string>();
+  const counts = new Map<PiiKey, number>();
+  interactions.forEach(({ request, response }) => {
+    const query = parseUrl(request.url)?.searchParams;
+    const recruiter = query?.get("recruiter");
+    if (recruiter) {
+      collectPii({ email: recruiter }, standIns, counts);
+    }
+    collectPii(parseJson(query?.get("webhook_data")), standIns, counts);
+    collectPii(parseJson(request.body), standIns, counts);
+    collectPii(parseJson(response.body), standIns, counts);
+  });
+  // Longest first, so a full name is replaced before its parts. Only whole
+  // words, so a name does not change the words it is part of.
+  const replacements = _.sortBy(
+    [...standIns.entries()],
+    ([value]) => -value.length
+  ).map(
+    ([value, standIn]) =>
+      [
+        new RegExp(
+          `(?<![\\p{L}\\p{N}])${_.escapeRegExp(value)}(?![\\p{L}\\p{N}])`,
+          "gu"
+        ),
+        standIn,
+      ] as const
+  );
+  const scrub = (text: string) =>
+    replacements.reduce(
+      (scrubbed, [pattern, standIn]) => scrubbed.replace(pattern, standIn),
+      redactSecrets(text, secrets)
+    );
+  const scrubBody = (body: string) => {
+    const json = parseJson(body);
+    return json === undefined
+      ? scrub(body)
+      : JSON.stringify(mapStrings(json, scrub));
+  };
+  const scrubUrl = (url: string) => {
+    const redacted = redactSecrets(url, secrets);
+    return (
+      mapPersonalQuery(redacted, (_name, value) => scrubBody(value)) ?? redacted
+    );
+  };
+  return interactions.map(({ request, response }) => ({
+    request: {
+      method: request.method,
+      url: scrubUrl(request.url),
+      body: request.body === undefined ? undefined : scrubBody(request.body),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: _.mapValues(
+        _.omit(response.headers, droppedResponseHeaders),
+        scrub
+      ),
+      body: scrubBody(response.body),
+    },
+  }));
+};
+
+export type CassetteRecorderOptions = Readonly<{
+  /**
+   * The global fetch by default
+   */
+  fetch?: typeof fetch;
+  /**
+   * Called with the number of interactions after each recording
+   */
+  onRecord?: (count: number) => void;
+}>;
+
+export type CassetteRecorder = Readonly<{
+  /**
+   * Passes calls on and records them, e.g. as the fetch option of the Refapp
+   * client
+   */
+  fetch: typeof fetch;
+  /**
+   * What has been recorded so far, scrubbed of the secrets and personal data
+   */
+  cassette: (secrets?: EnvironmentSecrets) => Cassette;
+  clear: () => void;
+}>;
+
+const toHeaderRecord = (headers: Headers) => {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+};
+
+const isSameInteraction = (a: CassetteInteraction, b: CassetteInteraction) =>
+  a.request.method === b.request.method &&
+  a.request.url === b.request.url &&
+  a.response.status === b.response.status &&
+  a.response.body === b.response.body;
+
+/**
+ * Records the calls that get a response. Calls failing without a response
+ * are not recorded, so a replay answers them as not recorded. A GET with the
+ * same response as the last one recorded for its url is not recorded again,
+ * so polling only adds to the cassette when something changes; a replay
+ * repeats the last response anyway.
+ */
+export const createCassetteRecorder = ({
+  fetch: fetchFunction = (input, init) => fetch(input, init),
+  onRecord,
+}: CassetteRecorderOptions = {}): CassetteRecorder => {
+  let interactions: ReadonlyArray<CassetteInteraction> = [];
+  let recordedAt = new Date();
+
+  return {
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      const body =
+        request.method === "GET" || request.method === "HEAD"
+          ? undefined
+          : await request.clone().text();
+      const response = await fetchFunction(input, init);
+      const interaction: CassetteInteraction = {
+        request: { method: request.method, url: request.url, body },
+        response: {
+          status: response.status,
+          statusText: response.statusText || undefined,
+          headers: toHeaderRecord(response.headers),
+          body: await response.clone().text(),
+        },
+      };
+      const last = _.findLast(
+        interactions,
+        (recorded) =>
+          recorded.request.method === request.method &&
+          recorded.request.url === request.url
+      );
+      if (
+        request.method !== "GET" ||
+        last === undefined ||
+        !isSameInteraction(last, interaction)
+      ) {
+        interactions = [...interactions, interaction];
+        onRecord?.(interactions.length);
+      }
+      return response;
+    },
+    cassette: (secrets) => ({
+      version: 1,
+      recordedAt: recordedAt.toISOString(),
+      interactions: scrubInteractions(interactions, secrets),
+    }),
+    clear: () => {
+      interactions = [];
+      recordedAt = new Date();
+      onRecord?.(0);
+    },
+  };
+};
+
+const toMatchKey = (method: string, url: string) =>
+  `${method.toUpperCase()} ${url}`;
+
+/**
+ * Answers each call with the next recorded interaction for the same method
+ * and url, after replacing the secrets in the url by their placeholders.
+ * Bodies and the values of personal query parameters, such as recruiter and
+ * webhook_data, are not compared, since the recorded ones are scrubbed. Once the
+ * recorded interactions for a call have been used up the last one is repeated,
+ * e.g. for polling, and calls that were never recorded get a 404. Use with
+ * toMockFetch in place of fetch.
+ */
+export const createCassettePlayer = (
+  cassette: Cassette,
+  secrets?: EnvironmentSecrets
+): RequestHandler => {
+  const recorded = _.groupBy(cassette.interactions, ({ request }) =>
+    toMatchKey(request.method, toMatchUrl(request.url))
+  );
+  const played = new Map<string, number>();
+
+  return async (request) => {
+    if (request.signal?.aborted) {
+      throw new DOMException("The request was aborted", "AbortError");
+    }
+    const key = toMatchKey(request.method, toMatchUrl(request.url, secrets));
+    const candidates = recorded[key] ?? [];
+    if (candidates.length === 0) {
+      return errorResponse(
+        404,
+        "not-found",
+        `No recorded response for ${key} in the cassette`
+      );
+    }
+    const index = played.get(key) ?? 0;
+    played.set(key, index + 1);
+    const { response } = candidates[Math.min(index, candidates.length - 1)];
+    return new Response(
+      [204, 304].includes(response.status) ? null : response.body,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      }
+    );
+  };
+};
@@ -0,0 +1,114 @@
+import {
+  AtsConfigField,
+  AtsConfigOptionsPage,
+  AtsWebhookData,
+  RefappAtsConfig,
+  refappAtsConfigSchema,
+} from "./ats-types";
+import { formatErrorIssue, toIssues } from "./http-handlers";
+import {
+  createRefappClient,
+  formatRefappClientError,
+  RefappResult,
+} from "./refapp-client";
+import { AtsConfigOptionsQuery } from "./remote-options";
+
+/**
+ * A config with a single error paragraph, so problems are shown where the
+ * config UI would have been
+ */
+export const createConfigError = (
+  message: string,
+  details: ReadonlyArray<string> = []
+): RefappAtsConfig => ({
+  config: {
+    fields: [
+      {
+        "id": "error",
+        "type": "paragraph",
+        "label": message ?? "An error occurred",
+        "label-markdown":
+          details.length > 0
+            ? [message, "", ...details.map((d) => `- \`${d}\``)].join("\n")
+            : undefined,
+        "label-class": "error",
+      },
+    ],
+  },
+});
+
+/**
+ * Validates a /config payload, turning any problems into an error config
+ * listing each offending path
+ */
+export const parseConfig = (json: unknown): RefappAtsConfig => {
+  const result = refappAtsConfigSchema.safeParse(json);
+  if (!result.success) {
+    return createConfigError(
+      "The config payload is invalid",
+      toIssues(result.error)
+    );
+  }
+  return result.data;
+};
+
+/**
+ * The config from a client result, or an error config
+ */
+export const toAtsConfig = (
+  result: RefappResult<RefappAtsConfig>
+): RefappAtsConfig =>
+  result.ok === false
+    ? createConfigError(
+        formatRefappClientError(result.error),
+        result.error.kind === "validation"
+          ? result.error.issues.map(formatErrorIssue)
+          : []
+      )
+    : result.data;
+
+/**
+ * The options page from a client result. Throws if the call failed.
+ */
+export const toOptionsPage = (
+  field: AtsConfigField,
+  result: RefappResult<AtsConfigOptionsPage>
+): AtsConfigOptionsPage => {
+  if (result.ok === false) {
+    throw new Error(
+      `Fetching options for ${field.id} failed: ${formatRefappClientError(
+        result.error
+      )}`
+    );
+  }
+  return result.data;
+};
+
+export const fetchFromRefapp = async (
+  configEndpoint: string,
+  atsSecret: string,
+  customerSecret: string,
+  webhookData?: AtsWebhookData
+): Promise<RefappAtsConfig> => {
+  const result = await createRefappClient({
+    configEndpoint,
+    atsSecret,
+    customerSecret,
+  }).fetchConfig(webhookData);
+  return toAtsConfig(result);
+};
+
+export const fetchOptionsFromRefapp = async (
+  configEndpoint: string,
+  atsSecret: string,
+  customerSecret: string,
+  field: AtsConfigField,
+  query: AtsConfigOptionsQuery
+): Promise<AtsConfigOptionsPage> => {
+  const result = await createRefappClient({
+    configEndpoint,
+    atsSecret,
+    customerSecret,
+  }).fetchOptions(field, query);
+  return toOptionsPage(field, result);
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtsConfigField } from "./ats-types";
+import { compareConfigLanguages, LanguageConfig } from "./config-consistency";
+
+const toLanguage = (
+  lang: string,
+  fields: ReadonlyArray<AtsConfigField>
+): LanguageConfig => ({ lang, config: { config: { fields: [...fields] } } });
+
+const english: ReadonlyArray<AtsConfigField> = [
+  {
+    id: "template",
+    type: "select",
+    label: "Project template",
+    options: [
+      { id: "quick", label: "Quick form" },
+      { id: "full", label: "Full form" },
+    ],
+    value: "quick",
+  },
+  {
+    "id": "note",
+    "type": "text",
+    "label": "Note to the recruiter",
+    "visible-when": { field: "template", equals: "full" },
+  },
+];
+
+const swedish: ReadonlyArray<AtsConfigField> = [
+  {
+    id: "template",
+    type: "select",
+    label: "Projektmall",
+    options: [
+      { id: "quick", label: "Snabbt formulär" },
+      { id: "full", label: "Fullständigt formulär" },
+    ],
+    value: "quick",
+  },
+  {
+    "id": "note",
+    "type": "text",
+    "label": "Meddelande till rekryteraren",
+    "visible-when": { field: "template", equals: "full" },
+  },
+];
+
+const compareWithSwedish = (
+  change: (fields: AtsConfigField[]) => ReadonlyArray<AtsConfigField>
+) =>
+  compareConfigLanguages([
+    toLanguage("en", english),
+    toLanguage("sv", change(swedish.map((field) => ({ ...field })))),
+  ]).map(({ rule, lang, path }) => ({ rule, lang, path }));
+
+describe("compareConfigLanguages", () => {
+  it("accepts translated configs", () => {
+    expect(compareWithSwedish((fields) => fields)).toEqual([]);
+  });
+
+  it("reports missing, extra and moved fields", () => {
+    expect(compareWithSwedish(([template]) => [template])).toEqual([
+      { rule: "missing-field", lang: "sv", path: "$.config.fields" },
+    ]);
+    expect(
+      compareWithSwedish((fields) => [
+        ...fields,
+        { id: "extra", type: "text", label: "Extra" },
+      ])
+    ).toEqual([
+      { rule: "extra-field", lang: "sv", path: "$.config.fields[2]" },
+    ]);
+    expect(compareWithSwedish(([template, note]) => [note, template])).toEqual([
+      { rule: "field-order", lang: "sv", path: "$.config.fields[0]" },
+    ]);
+  });
+
+  it("reports a different field type", () => {
+    expect(
+      compareWithSwedish(([template, note]) => [
+        template,
+        { ...note, type: "textarea" },
+      ])
+    ).toEqual([
+      { rule: "field-type", lang: "sv", path: "$.config.fields[1].type" },
+    ]);
+  });
+
+  it("reports different option ids and order", () => {
+    const [template] = swedish;
+    expect(
+      compareWithSwedish(([, note]) => [
+        { ...template, options: [{ id: "quick", label: "Snabbt" }] },
+        note,
+      ])
+    ).toEqual([
+      { rule: "option-ids", lang: "sv", path: "$.config.fields[0].options" },
+    ]);
+    expect(
+      compareWithSwedish(([, note]) => [
+        { ...template, options: [...template.options].reverse() },
+        note,
+      ])
+    ).toEqual([
+      { rule: "option-order", lang: "sv", path: "$.config.fields[0].options" },
+    ]);
+  });
+
+  it("reports different values and conditions", () => {
+    expect(
+      compareWithSwedish(([template, note]) => [
+        { ...template, value: "full" },
+        { ...note, "visible-when": { field: "template", equals: "quick" } },
+      ])
+    ).toEqual([
+      { rule: "value", lang: "sv", path: "$.config.fields[0].value" },
+      {
+        rule: "condition",
+        lang: "sv",
+        path: '$.config.fields[1]["visible-when"]',
+      },
+    ]);
+    expect(
+      compareWithSwedish(([template, note]) => [
+        template,
+        { ...note, "enabled-when": { field: "template", equals: "full" } },
+      ])
+    ).toEqual([
+      {
+        rule: "condition",
+        lang: "sv",
+        path: '$.config.fields[1]["enabled-when"]',
+      },
+    ]);
+  });
+
+  it("reports untranslated texts, as info without words", () => {
+    const issues = compareConfigLanguages([
+      toLanguage("en", english),
+      toLanguage("sv", [
+        { ...swedish[0], label: "Project template" },
+        { ...swedish[1], placeholder: "SMS" },
+      ]),
+      toLanguage("de", [swedish[0], { ...swedish[1], placeholder: "SMS" }]),
+    ]);
+    expect(
+      issues.map(({ rule, severity, lang, path }) => ({
+        rule,
+        severity,
+        lang,
+        path,
+      }))
+    ).toEqual([
+      {
+        rule: "untranslated-label",
+        severity: "warning",
+        lang: "sv",
+        path: "$.config.fields[0].label",
+      },
+      {
+        rule: "untranslated-label",
+        severity: "info",
+        lang: "de",
+        path: "$.config.fields[1].placeholder",
+      },
+    ]);
+  });
+});
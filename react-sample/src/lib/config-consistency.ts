@@ -0,0 +1,298 @@
+import { AtsConfigField, HtmlConfigOption, RefappAtsConfig } from "./ats-types";
+import { ConfigLintSeverity, toJsonPath } from "./config-lint";
+
+/**
+ * Compares the configs returned for the same job in different languages
+ * (the lang query parameter). Everything but the texts shown to the user
+ * should be the same, and the texts should differ.
+ */
+
+export const configConsistencyRuleValues = [
+  "missing-field",
+  "extra-field",
+  "field-order",
+  "field-type",
+  "option-ids",
+  "option-order",
+  "value",
+  "condition",
+  "untranslated-label",
+] as const;
+export type ConfigConsistencyRule =
+  (typeof configConsistencyRuleValues)[number];
+
+export type ConfigConsistencyIssue = Readonly<{
+  rule: ConfigConsistencyRule;
+  severity: ConfigLintSeverity;
+  /**
+   * The language whose config has the issue
+   */
+  lang: string;
+  /**
+   * JSON path in that config, e.g. `$.config.fields[2].options[0].label`
+   */
+  path: string;
+  message: string;
+}>;
+
+export type LanguageConfig = Readonly<{
+  lang: string;
+  config: RefappAtsConfig;
+}>;
+
+const textKeys = [
+  "label",
+  "placeholder",
+  "label-markdown",
+  "label-html",
+] as const;
+
+const optionTextKeys = ["label", "description", "group"] as const;
+
+type Text = Readonly<{
+  /**
+   * Identifies the same text in all languages, from the field and option ids
+   */
+  key: string;
+  path: ReadonlyArray<PropertyKey>;
+  value: string;
+}>;
+
+// Disabled text fields show information, such as the name of a form, that is
+// translated like a label
+const hasTranslatedValue = (field: AtsConfigField) =>
+  field.type === "text" && !!field.disabled;
+
+const fieldTexts = (field: AtsConfigField, index: number): Text[] => {
+  const path = ["config", "fields", index];
+  const texts: Text[] = [];
+  for (const key of textKeys) {
+    const value = (field as Readonly<Record<string, unknown>>)[key];
+    if (typeof value === "string") {
+      texts.push({
+        key: JSON.stringify([field.id, key]),
+        path: [...path, key],
+        value,
+      });
+    }
+  }
+  if (hasTranslatedValue(field) && typeof field.value === "string") {
+    texts.push({
+      key: JSON.stringify([field.id, "value"]),
+      path: [...path, "value"],
+      value: field.value,
+    });
+  }
+  (field.options ?? []).forEach((option: HtmlConfigOption, optionIndex) => {
+    for (const key of optionTextKeys) {
+      if (option[key]) {
+        texts.push({
+          key: JSON.stringify([field.id, "options", option.id, key]),
+          path: [...path, "options", optionIndex, key],
+          value: option[key],
+        });
+      }
+    }
+  });
+  return texts;
+};
+
+/**
+ * Texts without a word to translate, like "SMS" or a link, are often the
+ * same in all languages
+ */
+const isLanguageNeutral = (text: string) =>
+  text
+    .replace(/https?:\/\/\S+/g, "")
+    .split(/[^\p{L}]+/u)
+    .filter((word) => word.length > 0).length <= 1;
+
+const compareFields = (
+  reference: LanguageConfig,
+  other: LanguageConfig
+): ConfigConsistencyIssue[] => {
+  const issues: ConfigConsistencyIssue[] = [];
+  const issue = (
+    rule: ConfigConsistencyRule,
+    severity: ConfigLintSeverity,
+    path: ReadonlyArray<PropertyKey>,
+    message: string
+  ) =>
+    issues.push({
+      rule,
+      severity,
+      lang: other.lang,
+      path: toJsonPath(path),
+      message,
+    });
+  const referenceFields = reference.config.config.fields;
+  const otherFields = other.config.config.fields;
+  const referenceIndex = new Map(
+    referenceFields.map((field, index) => [field.id, index])
+  );
+  const otherIndex = new Map(
+    otherFields.map((field, index) => [field.id, index])
+  );
+
+  referenceFields.forEach((field, index) => {
+    if (!otherIndex.has(field.id)) {
+      issue(
+        "missing-field",
+        "error",
+        ["config", "fields"],
+        `Field "${field.id}" (${reference.lang} ${toJsonPath([
+          "config",
+          "fields",
+          index,
+        ])}) is missing`
+      );
+    }
+  });
+  otherFields.forEach((field, index) => {
+    if (!referenceIndex.has(field.id)) {
+      issue(
+        "extra-field",
+        "error",
+        ["config", "fields", index],
+        `Field "${field.id}" is not in the ${reference.lang} config`
+      );
+    }
+  });
+
+  const commonIds = (fields: ReadonlyArray<AtsConfigField>) =>
+    fields
+      .map((field) => field.id)
+      .filter((id) => referenceIndex.has(id) && otherIndex.has(id));
+  const referenceOrder = commonIds(referenceFields);
+  const otherOrder = commonIds(otherFields);
+  const firstMoved = otherOrder.findIndex(
+    (id, position) => referenceOrder[position] !== id
+  );
+  if (firstMoved !== -1) {
+    const id = otherOrder[firstMoved];
+    issue(
+      "field-order",
+      "error",
+      ["config", "fields", otherIndex.get(id)],
+      `Field "${id}" is in a different position than in the ${reference.lang} config`
+    );
+  }
+
+  otherFields.forEach((field, index) => {
+    const referenceField = referenceFields[referenceIndex.get(field.id)];
+    if (!referenceField) {
+      return;
+    }
+    const path = ["config", "fields", index];
+    if (field.type !== referenceField.type) {
+      issue(
+        "field-type",
+        "error",
+        [...path, "type"],
+        `Type "${field.type}" differs from "${referenceField.type}" in the ${reference.lang} config`
+      );
+    }
+    const optionIds = (field.options ?? []).map((option) => option.id);
+    const referenceOptionIds = (referenceField.options ?? []).map(
+      (option) => option.id
+    );
+    const sortedIds = (ids: ReadonlyArray<string>) => [...ids].sort().join();
+    if (sortedIds(optionIds) !== sortedIds(referenceOptionIds)) {
+      issue(
+        "option-ids",
+        "error",
+        [...path, "options"],
+        `Option ids ${JSON.stringify(optionIds)} differ from ${JSON.stringify(
+          referenceOptionIds
+        )} in the ${reference.lang} config`
+      );
+    } else if (optionIds.join() !== referenceOptionIds.join()) {
+      issue(
+        "option-order",
+        "error",
+        [...path, "options"],
+        `Options are in a different order than in the ${reference.lang} config`
+      );
+    }
+    if (
+      !hasTranslatedValue(field) &&
+      JSON.stringify(field.value) !== JSON.stringify(referenceField.value)
+    ) {
+      issue(
+        "value",
+        "error",
+        [...path, "value"],
+        `Value ${JSON.stringify(field.value)} differs from ${JSON.stringify(
+          referenceField.value
+        )} in the ${reference.lang} config`
+      );
+    }
+    for (const key of ["visible-when", "enabled-when"] as const) {
+      if (JSON.stringify(field[key]) !== JSON.stringify(referenceField[key])) {
+        issue(
+          "condition",
+          "error",
+          [...path, key],
+          `${key} ${JSON.stringify(field[key])} differs from ${JSON.stringify(
+            referenceField[key]
+          )} in the ${reference.lang} config`
+        );
+      }
+    }
+  });
+  return issues;
+};
+
+const compareTexts = (
+  configs: ReadonlyArray<LanguageConfig>
+): ConfigConsistencyIssue[] => {
+  const issues: ConfigConsistencyIssue[] = [];
+  const textsByKey = new Map<
+    string,
+    Array<Readonly<{ lang: string; text: Text }>>
+  >();
+  for (const { lang, config } of configs) {
+    config.config.fields.forEach((field, index) => {
+      for (const text of fieldTexts(field, index)) {
+        textsByKey.set(text.key, [
+          ...(textsByKey.get(text.key) ?? []),
+          { lang, text },
+        ]);
+      }
+    });
+  }
+  textsByKey.forEach((texts) => {
+    const [first, ...rest] = texts;
+    for (const { lang, text } of rest) {
+      if (text.value.trim() === "" || text.value !== first.text.value) {
+        continue;
+      }
+      issues.push({
+        rule: "untranslated-label",
+        severity: isLanguageNeutral(text.value) ? "info" : "warning",
+        lang,
+        path: toJsonPath(text.path),
+        message: `"${text.value}" is the same as in the ${first.lang} config`,
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Compares each config with the first one. Issues about ids, types, options,
+ * values, conditions and order are errors; texts that are the same in two languages are
+ * warnings, or info when there is at most one word in them.
+ */
+export const compareConfigLanguages = (
+  configs: ReadonlyArray<LanguageConfig>
+): ReadonlyArray<ConfigConsistencyIssue> => {
+  const [reference, ...others] = configs;
+  if (!reference) {
+    return [];
+  }
+  return [
+    ...others.flatMap((other) => compareFields(reference, other)),
+    ...compareTexts(configs),
+  ];
+};
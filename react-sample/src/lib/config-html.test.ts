@@ -0,0 +1,73 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtsConfigField } from "./ats-types";
+import { formEntriesToWebhookData, fromFormEntries } from "./config-html";
+
+const fields: ReadonlyArray<AtsConfigField> = [
+  { id: "intro", type: "paragraph", label: "Intro" },
+  { id: "notify", type: "checkbox", label: "Notify", value: true },
+  {
+    id: "forms",
+    type: "multi-select",
+    label: "Forms",
+    options: [
+      { id: "a", label: "A" },
+      { id: "b", label: "B" },
+    ],
+  },
+  { id: "count", type: "number", label: "Count", value: 2 },
+  {
+    "id": "note",
+    "type": "text",
+    "label": "Note",
+    "visible-when": { field: "notify", equals: true },
+  },
+  { id: "locked", type: "checkbox", label: "Locked", disabled: true },
+];
+
+describe("fromFormEntries", () => {
+  it("reads the posted values by field id", () => {
+    expect(
+      fromFormEntries(fields, [
+        ["notify", "on"],
+        ["forms", "a"],
+        ["forms", "b"],
+        ["count", "3"],
+        ["note", "Hello"],
+        ["intro", "ignored"],
+      ])
+    ).toEqual({ notify: true, forms: ["a", "b"], count: "3", note: "Hello" });
+  });
+
+  it("reads URLSearchParams", () => {
+    expect(
+      fromFormEntries(fields, new URLSearchParams("count=1&count=4&notify=on"))
+    ).toEqual({ notify: true, forms: [], count: "4" });
+  });
+
+  it("treats unposted checkboxes and multi-selects as unset", () => {
+    expect(fromFormEntries(fields, [])).toEqual({ notify: false, forms: [] });
+  });
+
+  it("leaves unposted disabled and hidden fields unset", () => {
+    const result = fromFormEntries(fields, [["forms", "a"]]);
+    expect(result).not.toHaveProperty("locked");
+    expect(result).not.toHaveProperty("note");
+  });
+});
+
+describe("formEntriesToWebhookData", () => {
+  it("serialises the posted form like the config UI", () => {
+    expect(
+      formEntriesToWebhookData(fields, [
+        ["notify", "on"],
+        ["count", "5"],
+        ["note", "Hello"],
+      ])
+    ).toEqual({ notify: true, forms: [], count: 5, note: "Hello" });
+    expect(formEntriesToWebhookData(fields, [["note", "Hello"]])).toEqual({
+      notify: false,
+      forms: [],
+      count: 2,
+    });
+  });
+});
@@ -0,0 +1,440 @@
+import {
+  AtsConfigField,
+  AtsConfigFieldValue,
+  AtsWebhookData,
+  HtmlConfigOption,
+  InfoClass,
+  RefappAtsConfig,
+} from "./ats-types";
+import {
+  AtsConfigEdits,
+  AtsInputConfigField,
+  AtsLabelConfigField,
+  getFieldValue,
+  groupConfigOptions,
+  isLabelField,
+} from "./config-values";
+import { AtsConfigValidationErrors } from "./config-validation";
+import { getFieldState, getFieldStates } from "./field-conditions";
+import { sanitizeLabelHtml } from "./label-sanitizer";
+import { assertIsNever } from "./typehelpers";
+import { toWebhookData } from "./webhook-data";
+
+/**
+ * Renders a config as a plain HTML form, for ATSes that can only embed
+ * pre-rendered HTML. Every input is named with its field id, so the posted
+ * form turns into webhook-data with formEntriesToWebhookData. The
+ * visible-when and enabled-when conditions are evaluated once, on the values
+ * the form is rendered with.
+ */
+
+export type ConfigHtmlOptions = Readonly<{
+  /**
+   * Current values keyed on field id, e.g. from a previous post
+   */
+  values?: AtsConfigEdits;
+  /**
+   * Shown next to the fields, e.g. from validateConfigValues on a post
+   */
+  errors?: AtsConfigValidationErrors;
+  action?: string;
+  method?: "get" | "post";
+  /**
+   * Prefixed to the field ids to make the element ids unique on the page
+   */
+  idPrefix?: string;
+  submitLabel?: string;
+  /**
+   * Include a style element with the default styles for the refapp-* classes
+   */
+  includeStyles?: boolean;
+}>;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+type AttributeValue = string | number | boolean | undefined;
+
+/**
+ * Boolean attributes are present when true, undefined and false are left out
+ */
+const attributes = (values: Readonly<Record<string, AttributeValue>>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== false)
+    .map(([name, value]) =>
+      value === true ? ` ${name}` : ` ${name}="${escapeHtml(String(value))}"`
+    )
+    .join("");
+
+const element = (
+  tag: string,
+  attributeValues: Readonly<Record<string, AttributeValue>>,
+  content: string
+) => `<${tag}${attributes(attributeValues)}>${content}</${tag}>`;
+
+const voidElement = (
+  tag: string,
+  attributeValues: Readonly<Record<string, AttributeValue>>
+) => `<${tag}${attributes(attributeValues)}>`;
+
+export const configHtmlStyles = `
+.refapp-config { display: flex; flex-direction: column; gap: 1rem; font-family: sans-serif; }
+.refapp-field { display: flex; flex-direction: column; gap: 0.25rem; border: 0; margin: 0; padding: 0; }
+.refapp-field--checkbox { flex-direction: row; flex-wrap: wrap; align-items: center; }
+.refapp-field input:not([type="checkbox"]):not([type="radio"]), .refapp-field select, .refapp-field textarea { font: inherit; padding: 0.5rem; }
+.refapp-description { color: #555; font-size: 0.875rem; }
+.refapp-error { color: #b00020; font-size: 0.875rem; flex-basis: 100%; }
+.refapp-required { color: #b00020; }
+.refapp-callout { border-left: 4px solid; border-radius: 4px; padding: 0.75rem 1rem; }
+.refapp-callout > :first-child { margin-top: 0; }
+.refapp-callout > :last-child { margin-bottom: 0; }
+.refapp-callout--info { background: #e5f6fd; border-color: #0288d1; }
+.refapp-callout--warning { background: #fff4e5; border-color: #ed6c02; }
+.refapp-callout--error { background: #fdeded; border-color: #d32f2f; }
+.refapp-callout--success { background: #edf7ed; border-color: #2e7d32; }
+`.trim();
+
+const headingTag = (type: AtsLabelConfigField["type"]) => {
+  switch (type) {
+    case "header":
+      return "h2";
+    case "subheader":
+      return "h3";
+    case "paragraph":
+      return "p";
+  }
+  return assertIsNever(type);
+};
+
+// Errors are announced as soon as they are shown
+const calloutRole = (labelClass: Exclude<InfoClass, "default">) =>
+  labelClass === "error" || labelClass === "warning" ? "alert" : "note";
+
+const renderLabelField = (field: AtsLabelConfigField, id: string) => {
+  const labelHtml = field["label-html"];
+  const content = labelHtml
+    ? element("div", { id }, sanitizeLabelHtml(labelHtml))
+    : element(
+        headingTag(field.type),
+        { id },
+        escapeHtml(field.label).replace(/\n/g, "<br>")
+      );
+  const labelClass = field["label-class"];
+  return labelClass && labelClass !== "default"
+    ? element(
+        "div",
+        {
+          class: `refapp-callout refapp-callout--${labelClass}`,
+          role: calloutRole(labelClass),
+        },
+        content
+      )
+    : content;
+};
+
+const optionText = (option: HtmlConfigOption) =>
+  escapeHtml(
+    option.description
+      ? `${option.label} (${option.description})`
+      : option.label
+  );
+
+const renderOptions = (
+  options: ReadonlyArray<HtmlConfigOption>,
+  isSelected: (option: HtmlConfigOption) => boolean
+) =>
+  groupConfigOptions(options)
+    .map(({ group, options }) => {
+      const items = options
+        .map((option) =>
+          element(
+            "option",
+            {
+              value: option.id,
+              selected: isSelected(option),
+              disabled: option.disabled,
+            },
+            optionText(option)
+          )
+        )
+        .join("");
+      return group !== undefined
+        ? element("optgroup", { label: group }, items)
+        : items;
+    })
+    .join("");
+
+const toText = (value: AtsConfigFieldValue | undefined) =>
+  typeof value === "string" || typeof value === "number" ? String(value) : "";
+
+type InputContext = Readonly<{
+  id: string;
+  value: AtsConfigFieldValue | undefined;
+  disabled: boolean;
+  error: string | undefined;
+}>;
+
+const renderInput = (
+  field: AtsInputConfigField,
+  { id, value, disabled, error }: InputContext
+): string => {
+  const errorId = `${id}-error`;
+  const common = {
+    id,
+    "name": field.id,
+    "disabled": disabled,
+    "required": field.required,
+    "aria-invalid": error ? "true" : undefined,
+    "aria-describedby": error ? errorId : undefined,
+  };
+  const requiredMark = field.required
+    ? ` <span class="refapp-required" aria-hidden="true">*</span>`
+    : "";
+  const label = element("label", { for: id }, escapeHtml(field.label));
+  const labelWithMark = element(
+    "label",
+    { for: id },
+    escapeHtml(field.label) + requiredMark
+  );
+  const errorHtml = error
+    ? element("span", { id: errorId, class: "refapp-error" }, escapeHtml(error))
+    : "";
+  const wrap = (content: string) =>
+    element(
+      "div",
+      { class: `refapp-field refapp-field--${field.type}` },
+      content + errorHtml
+    );
+  switch (field.type) {
+    case "checkbox":
+      return wrap(
+        voidElement("input", {
+          ...common,
+          type: "checkbox",
+          value: "true",
+          checked: value === true,
+        }) + label
+      );
+    case "select":
+    case "multi-select": {
+      const multiple = field.type === "multi-select";
+      const selected = Array.isArray(value) ? value : [toText(value)];
+      const placeholder =
+        !multiple && (field.placeholder || !field.required)
+          ? element(
+              "option",
+              { value: "", selected: !selected.some((id) => id !== "") },
+              escapeHtml(field.placeholder ?? "")
+            )
+          : "";
+      return wrap(
+        labelWithMark +
+          element(
+            "select",
+            { ...common, multiple },
+            placeholder +
+              renderOptions(field.options ?? [], (option) =>
+                selected.includes(option.id)
+              )
+          )
+      );
+    }
+    case "radio": {
+      const radios = (field.options ?? [])
+        .map((option, index) => {
+          const optionId = `${id}-${index}`;
+          const descriptionId = `${optionId}-description`;
+          return element(
+            "div",
+            {},
+            voidElement("input", {
+              "type": "radio",
+              "id": optionId,
+              "name": field.id,
+              "value": option.id,
+              "checked": value === option.id,
+              "disabled": disabled || option.disabled,
+              "required": field.required,
+              "aria-describedby": option.description
+                ? descriptionId
+                : undefined,
+            }) +
+              element("label", { for: optionId }, escapeHtml(option.label)) +
+              (option.description
+                ? " " +
+                  element(
+                    "span",
+                    { id: descriptionId, class: "refapp-description" },
+                    escapeHtml(option.description)
+                  )
+                : "")
+          );
+        })
+        .join("");
+      return element(
+        "fieldset",
+        {
+          "class": "refapp-field refapp-field--radio",
+          "id": id,
+          "disabled": disabled,
+          "aria-invalid": common["aria-invalid"],
+          "aria-describedby": common["aria-describedby"],
+        },
+        element("legend", {}, escapeHtml(field.label) + requiredMark) +
+          radios +
+          errorHtml
+      );
+    }
+    case "textarea":
+      return wrap(
+        labelWithMark +
+          element(
+            "textarea",
+            {
+              ...common,
+              placeholder: field.placeholder,
+              minlength: field["min-length"],
+              maxlength: field["max-length"],
+              rows: 3,
+            },
+            escapeHtml(toText(value))
+          )
+      );
+    case "text":
+    case "url":
+    case "number":
+    case "date":
+      return wrap(
+        labelWithMark +
+          voidElement("input", {
+            ...common,
+            type: field.type,
+            value: toText(value),
+            placeholder: field.placeholder,
+            minlength: field["min-length"],
+            maxlength: field["max-length"],
+            pattern: field.pattern,
+            min: field.min,
+            max: field.max,
+          })
+      );
+  }
+  return assertIsNever(field.type);
+};
+
+/**
+ * Renders the fields as an HTML form string. Nothing is read from or written
+ * to a DOM, so it can run on any server.
+ */
+export const renderConfigHtml = (
+  config: RefappAtsConfig,
+  {
+    values = {},
+    errors = {},
+    action,
+    method = "post",
+    idPrefix = "refapp-",
+    submitLabel = "Save",
+    includeStyles = true,
+  }: ConfigHtmlOptions = {}
+): string => {
+  const { fields } = config.config;
+  const states = getFieldStates(fields, values);
+  const content = fields
+    .map((field) => {
+      const id = `${idPrefix}${field.id}`;
+      const { visible, enabled } = getFieldState(states, field);
+      if (!visible) {
+        return "";
+      }
+      return isLabelField(field)
+        ? renderLabelField(field, id)
+        : renderInput(field, {
+            id,
+            value: getFieldValue(field, values),
+            disabled: !!field.disabled || !enabled,
+            error: errors[field.id]?.message,
+          });
+    })
+    .join("\n");
+  const styles = includeStyles
+    ? element("style", {}, configHtmlStyles) + "\n"
+    : "";
+  return (
+    styles +
+    element(
+      "form",
+      { class: "refapp-config", action, method },
+      `\n${content}\n${element(
+        "button",
+        { type: "submit" },
+        escapeHtml(submitLabel)
+      )}\n`
+    )
+  );
+};
+
+/**
+ * The values of a form rendered with renderConfigHtml, from the posted
+ * entries (e.g. URLSearchParams or FormData of strings). An unchecked
+ * checkbox and a multi-select without selected options are not posted, so
+ * they are false and no options unless the field was disabled or hidden.
+ * Fields that are not posted otherwise keep their value from the config.
+ */
+export const fromFormEntries = (
+  fields: ReadonlyArray<AtsConfigField>,
+  entries: Iterable<readonly [string, string]>
+): AtsConfigEdits => {
+  const posted = new Map<string, string[]>();
+  for (const [name, value] of entries) {
+    posted.set(name, [...(posted.get(name) ?? []), value]);
+  }
+  const result: Record<string, AtsConfigFieldValue> = {};
+  const unposted: AtsInputConfigField[] = [];
+  for (const field of fields) {
+    if (isLabelField(field)) {
+      continue;
+    }
+    const values = posted.get(field.id);
+    if (!values) {
+      unposted.push(field);
+      continue;
+    }
+    switch (field.type) {
+      case "checkbox":
+        result[field.id] = values.some((v) => v === "true" || v === "on");
+        break;
+      case "multi-select":
+        result[field.id] = values;
+        break;
+      default:
+        result[field.id] = values[values.length - 1];
+    }
+  }
+  const states = getFieldStates(fields, result);
+  for (const field of unposted) {
+    const { visible, enabled } = getFieldState(states, field);
+    if (field.disabled || !visible || !enabled) {
+      continue;
+    }
+    if (field.type === "checkbox") {
+      result[field.id] = false;
+    } else if (field.type === "multi-select") {
+      result[field.id] = [];
+    }
+  }
+  return result;
+};
+
+/**
+ * The webhook-data for a posted form, serialised like the config UI does
+ */
+export const formEntriesToWebhookData = (
+  fields: ReadonlyArray<AtsConfigField>,
+  entries: Iterable<readonly [string, string]>
+): AtsWebhookData => toWebhookData(fields, fromFormEntries(fields, entries));
@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { main } from "../../cli/lint-config";
+import { ConfigLintRule, lintConfig, toJsonPath } from "./config-lint";
+
+const toConfig = (fields: ReadonlyArray<unknown>) => ({ config: { fields } });
+
+const rulesOf = (fields: ReadonlyArray<unknown>) =>
+  lintConfig(toConfig(fields)).map(({ rule }) => rule);
+
+const select = {
+  id: "template",
+  label: "Template",
+  type: "select",
+  options: [
+    { id: "a", label: "A" },
+    { id: "b", label: "B" },
+  ],
+  value: "a",
+};
+
+const paragraph = {
+  "id": "intro",
+  "label": "Intro",
+  "type": "paragraph",
+  "label-markdown": "Read [the guide](https://example.com/guide) **first**.",
+  "label-html":
+    '<p>Read <a href="https://example.com/guide">the guide</a> <strong>first</strong>.</p>',
+};
+
+const passingAndFailing: ReadonlyArray<
+  Readonly<{
+    rule: ConfigLintRule;
+    passing: ReadonlyArray<unknown>;
+    failing: ReadonlyArray<unknown>;
+  }>
+> = [
+  {
+    rule: "schema",
+    passing: [select],
+    failing: [{ ...select, type: "dropdown" }],
+  },
+  {
+    rule: "duplicate-field-id",
+    passing: [select, { ...select, id: "other" }],
+    failing: [select, select],
+  },
+  {
+    rule: "duplicate-option-id",
+    passing: [select],
+    failing: [
+      { ...select, options: [...select.options, { id: "a", label: "A2" }] },
+    ],
+  },
+  {
+    rule: "value-not-in-options",
+    passing: [
+      { ...select, type: "multi-select", value: ["a", "b"] },
+      {
+        ...select,
+        "id": "remote",
+        "options": [],
+        "options-source": { url: "options" },
+      },
+    ],
+    failing: [{ ...select, value: "c" }],
+  },
+  {
+    rule: "label-format-on-input-field",
+    passing: [paragraph],
+    failing: [{ ...select, "label-markdown": "**Template**" }],
+  },
+  {
+    rule: "label-html-mismatch",
+    passing: [paragraph],
+    failing: [
+      {
+        ...paragraph,
+        "label-html":
+          '<p>Read <a href="https://example.com/other">the guide</a> first.</p>',
+      },
+    ],
+  },
+  {
+    rule: "unsafe-label",
+    passing: [paragraph],
+    failing: [
+      {
+        ...paragraph,
+        "label-markdown": "Read [the guide](javascript:alert(1)) **first**.",
+      },
+    ],
+  },
+  {
+    rule: "informational-text-field",
+    passing: [
+      {
+        id: "form-informational",
+        label: "Form",
+        type: "text",
+        value: "Standard form",
+        disabled: true,
+      },
+      { id: "name", label: "Name", type: "text" },
+    ],
+    failing: [
+      { id: "form-informational", label: "Form", type: "text", value: "x" },
+    ],
+  },
+  {
+    rule: "unknown-condition-field",
+    passing: [
+      select,
+      {
+        "id": "note",
+        "label": "Note",
+        "type": "text",
+        "visible-when": { field: "template", equals: "b" },
+      },
+    ],
+    failing: [
+      {
+        "id": "note",
+        "label": "Note",
+        "type": "text",
+        "visible-when": { not: { field: "missing", equals: "b" } },
+      },
+    ],
+  },
+];
+
+describe("lintConfig", () => {
+  it.each(passingAndFailing)("checks $rule", ({ rule, passing, failing }) => {
+    expect(rulesOf(passing)).toEqual([]);
+    expect(rulesOf(failing)).toContain(rule);
+  });
+
+  it("reports a disabled text field without a value", () => {
+    expect(
+      lintConfig(
+        toConfig([
+          { id: "shown", label: "Shown", type: "text", disabled: true },
+        ])
+      )
+    ).toEqual([
+      expect.objectContaining({
+        rule: "informational-text-field",
+        severity: "warning",
+        path: "$.config.fields[0].disabled",
+      }),
+    ]);
+  });
+
+  it("reports the path of the value", () => {
+    expect(
+      lintConfig(
+        toConfig([{ ...select, type: "multi-select", value: ["a", "c"] }])
+      )
+    ).toEqual([
+      expect.objectContaining({
+        rule: "value-not-in-options",
+        severity: "error",
+        path: "$.config.fields[0].value[1]",
+      }),
+    ]);
+  });
+});
+
+describe("toJsonPath", () => {
+  it("quotes keys that are not identifiers", () => {
+    expect(toJsonPath(["config", "fields", 2, "label-html"])).toBe(
+      '$.config.fields[2]["label-html"]'
+    );
+  });
+});
+
+describe("lint-config", () => {
+  const log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+  const error = jest
+    .spyOn(console, "error")
+    .mockImplementation(() => undefined);
+  const dirs: string[] = [];
+  const writeConfig = (fields: ReadonlyArray<unknown>) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "lint-config-"));
+    dirs.push(dir);
+    const file = path.join(dir, "config.json");
+    fs.writeFileSync(file, JSON.stringify(toConfig(fields)));
+    return file;
+  };
+
+  afterEach(() => {
+    log.mockClear();
+    error.mockClear();
+    dirs.splice(0).forEach((dir) => fs.rmSync(dir, { recursive: true }));
+  });
+
+  it("passes the config examples", () => {
+    expect(main([path.resolve(__dirname, "../../../config-examples")])).toBe(0);
+    expect(log).toHaveBeenLastCalledWith("0 issues in 8 files");
+  });
+
+  it("exits with 1 on errors and prints them as JSON", () => {
+    const file = writeConfig([{ ...select, value: "c" }]);
+    expect(main(["--json", file])).toBe(1);
+    expect(JSON.parse(log.mock.calls[0][0] as string)).toEqual({
+      [file]: [expect.objectContaining({ rule: "value-not-in-options" })],
+    });
+  });
+
+  it("exits with 0 on warnings only", () => {
+    const file = writeConfig([{ ...select, "label-markdown": "**x**" }]);
+    expect(main([file])).toBe(0);
+    expect(log).toHaveBeenCalledWith(file);
+  });
+
+  it("exits with 2 without a readable file", () => {
+    expect(main([])).toBe(2);
+    expect(main([path.join(os.tmpdir(), "missing-config.json")])).toBe(2);
+  });
+});
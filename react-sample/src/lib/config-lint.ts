@@ -0,0 +1,349 @@
+import { refappAtsConfigSchema, refappLabelFieldTypes } from "./ats-types";
+import { decodeEntities, sanitizeLabel } from "./label-sanitizer";
+
+/**
+ * Checks /config payloads for mistakes that the schema alone does not catch,
+ * such as a select value that is not among its options. Works on the raw
+ * JSON so that problems are reported with the path in the payload even when
+ * it does not parse.
+ */
+
+export const configLintSeverityValues = ["error", "warning", "info"] as const;
+export type ConfigLintSeverity = (typeof configLintSeverityValues)[number];
+
+export const configLintRuleValues = [
+  "schema",
+  "duplicate-field-id",
+  "duplicate-option-id",
+  "value-not-in-options",
+  "label-format-on-input-field",
+  "label-html-mismatch",
+  "unsafe-label",
+  "informational-text-field",
+  "unknown-condition-field",
+] as const;
+export type ConfigLintRule = (typeof configLintRuleValues)[number];
+
+export type ConfigLintIssue = Readonly<{
+  rule: ConfigLintRule;
+  severity: ConfigLintSeverity;
+  /**
+   * JSON path to the offending value, e.g. `$.config.fields[2].value`
+   */
+  path: string;
+  message: string;
+}>;
+
+type JsonPath = ReadonlyArray<PropertyKey>;
+
+export const toJsonPath = (path: JsonPath): string =>
+  path.reduce<string>((result, key) => {
+    if (typeof key === "number") {
+      return `${result}[${key}]`;
+    }
+    const name = String(key);
+    return /^[A-Za-z_$][\w$]*$/.test(name)
+      ? `${result}.${name}`
+      : `${result}[${JSON.stringify(name)}]`;
+  }, "$");
+
+type JsonObject = Readonly<Record<string, unknown>>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): ReadonlyArray<unknown> =>
+  Array.isArray(value) ? value : [];
+
+const isLabelType = (type: unknown) =>
+  (refappLabelFieldTypes as ReadonlyArray<unknown>).includes(type);
+
+const optionTypes: ReadonlyArray<unknown> = ["select", "multi-select", "radio"];
+
+const normalizeText = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * The visible text and link targets of label-html
+ */
+const summarizeHtml = (html: string) => ({
+  text: normalizeText(decodeEntities(html.replace(/<[^>]*>/g, " "))),
+  links: Array.from(
+    html.matchAll(/<a\s[^>]*href\s*=\s*(?:"([^"]*)"|'([^']*)')/gi),
+    (match) => decodeEntities(match[1] ?? match[2])
+  ),
+});
+
+/**
+ * The visible text and link targets of label-markdown. Only the inline
+ * syntax and block markers used in config labels are understood.
+ */
+const summarizeMarkdown = (markdown: string) => {
+  const links: string[] = [];
+  const text = markdown
+    .replace(/!?\[([^\]]*)\]\(([^)\s]*)[^)]*\)/g, (_, label, url) => {
+      links.push(url);
+      return label;
+    })
+    .replace(/<(https?:[^>]+)>/g, (_, url) => {
+      links.push(url);
+      return url;
+    })
+    .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/gm, "")
+    .replace(/(\*\*|__|\*|_|~~|`)/g, "")
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, "$1");
+  return { text: normalizeText(decodeEntities(text)), links };
+};
+
+// Compared without spaces, since block elements add them in html
+const compactText = (text: string) => text.replace(/\s/g, "");
+
+const lintLabelHtml = (
+  field: JsonObject,
+  path: JsonPath
+): ReadonlyArray<ConfigLintIssue> => {
+  const html = field["label-html"];
+  const markdown = field["label-markdown"];
+  if (typeof html !== "string" || typeof markdown !== "string") {
+    return [];
+  }
+  const fromHtml = summarizeHtml(html);
+  const fromMarkdown = summarizeMarkdown(markdown);
+  const issues: ConfigLintIssue[] = [];
+  if (compactText(fromHtml.text) !== compactText(fromMarkdown.text)) {
+    issues.push({
+      rule: "label-html-mismatch",
+      severity: "warning",
+      path: toJsonPath([...path, "label-html"]),
+      message: `The text of label-html ("${fromHtml.text}") does not match label-markdown ("${fromMarkdown.text}")`,
+    });
+  }
+  if (fromHtml.links.join(" ") !== fromMarkdown.links.join(" ")) {
+    issues.push({
+      rule: "label-html-mismatch",
+      severity: "warning",
+      path: toJsonPath([...path, "label-html"]),
+      message: `The links in label-html (${
+        fromHtml.links.join(", ") || "none"
+      }) do not match label-markdown (${fromMarkdown.links.join(", ") || "none"})`,
+    });
+  }
+  return issues;
+};
+
+const lintOptions = (
+  field: JsonObject,
+  path: JsonPath
+): ReadonlyArray<ConfigLintIssue> => {
+  if (!optionTypes.includes(field.type)) {
+    return [];
+  }
+  const issues: ConfigLintIssue[] = [];
+  const optionIds = new Set<unknown>();
+  asArray(field.options).forEach((option, index) => {
+    const id = isObject(option) ? option.id : undefined;
+    if (optionIds.has(id)) {
+      issues.push({
+        rule: "duplicate-option-id",
+        severity: "error",
+        path: toJsonPath([...path, "options", index, "id"]),
+        message: `Option id "${id}" is used more than once`,
+      });
+    }
+    optionIds.add(id);
+  });
+  // With an options-source the options are not known up front
+  if (field["options-source"] !== undefined && optionIds.size === 0) {
+    return issues;
+  }
+  const values = Array.isArray(field.value) ? field.value : [field.value];
+  values.forEach((value, index) => {
+    if (value !== undefined && value !== "" && !optionIds.has(value)) {
+      issues.push({
+        rule: "value-not-in-options",
+        severity: "error",
+        path: toJsonPath(
+          Array.isArray(field.value)
+            ? [...path, "value", index]
+            : [...path, "value"]
+        ),
+        message: `Value ${JSON.stringify(value)} is not one of the options`,
+      });
+    }
+  });
+  return issues;
+};
+
+const lintLabelFormat = (
+  field: JsonObject,
+  path: JsonPath
+): ReadonlyArray<ConfigLintIssue> =>
+  isLabelType(field.type)
+    ? []
+    : (["label-class", "label-markdown", "label-html"] as const)
+        .filter((key) => field[key] !== undefined)
+        .map((key) => ({
+          rule: "label-format-on-input-field",
+          severity: "warning",
+          path: toJsonPath([...path, key]),
+          message: `${key} is ignored on "${String(field.type)}" fields, it only applies to ${refappLabelFieldTypes.join(", ")}`,
+        }));
+
+/**
+ * Content that label-html and label-markdown lose when they are sanitised
+ * for display, see label-sanitizer.ts
+ */
+const lintUnsafeLabel = (
+  field: JsonObject,
+  path: JsonPath
+): ReadonlyArray<ConfigLintIssue> =>
+  (
+    [
+      ["label-html", "html"],
+      ["label-markdown", "markdown"],
+    ] as const
+  ).flatMap(([key, format]) => {
+    const text = field[key];
+    if (typeof text !== "string") {
+      return [];
+    }
+    const { removed } = sanitizeLabel(text, format);
+    return removed.length === 0
+      ? []
+      : [
+          {
+            rule: "unsafe-label" as const,
+            severity: "error" as const,
+            path: toJsonPath([...path, key]),
+            message: `Not allowed and removed when shown: ${removed.join(", ")}`,
+          },
+        ];
+  });
+
+/**
+ * Text fields are sometimes used to show information, e.g. the
+ * form-sv-informational-* fields showing the form of an existing project as a
+ * disabled text field with the form as its value. That is only a mistake when
+ * the field is disabled without a value, which shows an empty input, or when
+ * its id names it informational but it is not disabled, so the information
+ * can be changed and is submitted.
+ */
+const lintInformationalText = (
+  field: JsonObject,
+  path: JsonPath
+): ReadonlyArray<ConfigLintIssue> => {
+  if (field.type !== "text") {
+    return [];
+  }
+  const id = String(field.id);
+  if (field.disabled === true) {
+    return field.value === undefined || field.value === ""
+      ? [
+          {
+            rule: "informational-text-field",
+            severity: "warning",
+            path: toJsonPath([...path, "disabled"]),
+            message: `"${id}" is a disabled text field without a value, which shows an empty input. Give it a value, or use a paragraph field with label-markdown for information.`,
+          },
+        ]
+      : [];
+  }
+  return /informational/i.test(id)
+    ? [
+        {
+          rule: "informational-text-field",
+          severity: "warning",
+          path: toJsonPath([...path, "disabled"]),
+          message: `"${id}" looks like information but is not disabled, so it can be changed and is submitted. Disable it, or use a paragraph field with label-markdown.`,
+        },
+      ]
+    : [];
+};
+
+const conditionFieldPaths = (
+  condition: unknown,
+  path: JsonPath
+): ReadonlyArray<Readonly<{ field: unknown; path: JsonPath }>> => {
+  if (!isObject(condition)) {
+    return [];
+  }
+  if ("field" in condition) {
+    return [{ field: condition.field, path: [...path, "field"] }];
+  }
+  return [
+    ...asArray(condition.all).flatMap((c, index) =>
+      conditionFieldPaths(c, [...path, "all", index])
+    ),
+    ...asArray(condition.any).flatMap((c, index) =>
+      conditionFieldPaths(c, [...path, "any", index])
+    ),
+    ...conditionFieldPaths(condition.not, [...path, "not"]),
+  ];
+};
+
+const lintConditions = (
+  field: JsonObject,
+  path: JsonPath,
+  fieldIds: ReadonlySet<unknown>
+): ReadonlyArray<ConfigLintIssue> =>
+  (["visible-when", "enabled-when"] as const)
+    .flatMap((key) => conditionFieldPaths(field[key], [...path, key]))
+    .filter((reference) => !fieldIds.has(reference.field))
+    .map((reference) => ({
+      rule: "unknown-condition-field",
+      severity: "error",
+      path: toJsonPath(reference.path),
+      message: `There is no field with id ${JSON.stringify(reference.field)}`,
+    }));
+
+const lintSchema = (json: unknown): ReadonlyArray<ConfigLintIssue> => {
+  const result = refappAtsConfigSchema.safeParse(json);
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => ({
+        rule: "schema",
+        severity: "error",
+        path: toJsonPath(issue.path),
+        message: issue.message,
+      }));
+};
+
+/**
+ * Lints a /config payload, returning the issues in the order of the fields
+ * after any schema errors
+ */
+export const lintConfig = (json: unknown): ReadonlyArray<ConfigLintIssue> => {
+  const rawFields =
+    isObject(json) && isObject(json.config) ? asArray(json.config.fields) : [];
+  const fieldIds = new Set(
+    rawFields.map((field) => (isObject(field) ? field.id : undefined))
+  );
+  const seenIds = new Set<unknown>();
+  const issues: ConfigLintIssue[] = [...lintSchema(json)];
+  rawFields.forEach((field, index) => {
+    if (!isObject(field)) {
+      return;
+    }
+    const path = ["config", "fields", index];
+    if (seenIds.has(field.id)) {
+      issues.push({
+        rule: "duplicate-field-id",
+        severity: "error",
+        path: toJsonPath([...path, "id"]),
+        message: `Field id ${JSON.stringify(field.id)} is used more than once`,
+      });
+    }
+    seenIds.add(field.id);
+    issues.push(
+      ...lintOptions(field, path),
+      ...lintLabelFormat(field, path),
+      ...lintLabelHtml(field, path),
+      ...lintUnsafeLabel(field, path),
+      ...lintInformationalText(field, path),
+      ...lintConditions(field, path, fieldIds)
+    );
+  });
+  return issues;
+};
+
+export const hasLintErrors = (issues: ReadonlyArray<ConfigLintIssue>) =>
+  issues.some((issue) => issue.severity === "error");
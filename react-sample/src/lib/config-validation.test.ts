@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtsConfigField } from "./ats-types";
+import { isConfigValid, validateConfigValues } from "./config-validation";
+
+const codeOf = (field: AtsConfigField, value: string | number | boolean) =>
+  validateConfigValues([field], { [field.id]: value })[field.id]?.code;
+
+describe("validateConfigValues", () => {
+  it("requires a value, including a checked checkbox", () => {
+    const text: AtsConfigField = {
+      id: "name",
+      type: "text",
+      label: "Name",
+      required: true,
+    };
+    const checkbox: AtsConfigField = {
+      id: "terms",
+      type: "checkbox",
+      label: "Terms",
+      required: true,
+    };
+    expect(validateConfigValues([text, checkbox], {})).toEqual({
+      name: { code: "required", message: "Name is required" },
+      terms: { code: "required", message: "Terms is required" },
+    });
+    expect(
+      isConfigValid(
+        validateConfigValues([text, checkbox], { name: "A", terms: true })
+      )
+    ).toBe(true);
+  });
+
+  it("checks the length and pattern of non-empty text", () => {
+    const field: AtsConfigField = {
+      "id": "code",
+      "type": "text",
+      "label": "Code",
+      "min-length": 2,
+      "max-length": 4,
+      "pattern": "[A-Z]+",
+    };
+    expect(codeOf(field, "")).toBeUndefined();
+    expect(codeOf(field, "A")).toBe("min-length");
+    expect(codeOf(field, "ABCDE")).toBe("max-length");
+    // The pattern must match the whole value
+    expect(codeOf(field, "AB1")).toBe("pattern");
+    expect(codeOf(field, "ABC")).toBeUndefined();
+  });
+
+  it("ignores a pattern that is not a valid regular expression", () => {
+    expect(
+      codeOf({ id: "text", type: "text", label: "Text", pattern: "(" }, "x")
+    ).toBeUndefined();
+  });
+
+  it("checks urls, dates and numbers", () => {
+    const url: AtsConfigField = { id: "url", type: "url", label: "Url" };
+    expect(codeOf(url, "ftp://example.com")).toBe("invalid-url");
+    expect(codeOf(url, "https://example.com")).toBeUndefined();
+    const date: AtsConfigField = { id: "date", type: "date", label: "Date" };
+    expect(codeOf(date, "2024-02-30")).toBe("invalid-date");
+    expect(codeOf(date, "2024-02-29")).toBeUndefined();
+    const number: AtsConfigField = {
+      id: "count",
+      type: "number",
+      label: "Count",
+      min: 1,
+      max: 10,
+    };
+    expect(codeOf(number, "two")).toBe("not-a-number");
+    expect(codeOf(number, "0")).toBe("min");
+    expect(codeOf(number, 11)).toBe("max");
+    expect(codeOf(number, " 5 ")).toBeUndefined();
+  });
+
+  it("skips disabled, hidden and label fields", () => {
+    const fields: ReadonlyArray<AtsConfigField> = [
+      { id: "enabled", type: "checkbox", label: "Enabled" },
+      {
+        "id": "hidden",
+        "type": "text",
+        "label": "Hidden",
+        "required": true,
+        "visible-when": { field: "enabled", equals: true },
+      },
+      {
+        id: "disabled",
+        type: "text",
+        label: "Disabled",
+        required: true,
+        disabled: true,
+      },
+      { id: "header", type: "header", label: "Header", required: true },
+    ];
+    expect(validateConfigValues(fields, {})).toEqual({});
+    expect(
+      Object.keys(validateConfigValues(fields, { enabled: true }))
+    ).toEqual(["hidden"]);
+  });
+});
@@ -0,0 +1,141 @@
+import { AtsConfigField, AtsConfigFieldValue } from "./ats-types";
+import { AtsConfigEdits, getFieldValue, isLabelField } from "./config-values";
+import { getFieldState, getFieldStates } from "./field-conditions";
+
+export const atsConfigValidationCodes = [
+  "required",
+  "min-length",
+  "max-length",
+  "pattern",
+  "invalid-url",
+  "invalid-date",
+  "not-a-number",
+  "min",
+  "max",
+] as const;
+export type AtsConfigValidationCode = (typeof atsConfigValidationCodes)[number];
+
+export type AtsConfigValidationError = Readonly<{
+  code: AtsConfigValidationCode;
+  message: string;
+}>;
+
+/**
+ * The first problem found for each invalid field, keyed on field id
+ */
+export type AtsConfigValidationErrors = Readonly<
+  Record<string, AtsConfigValidationError>
+>;
+
+const isEmpty = (value: AtsConfigFieldValue | undefined) =>
+  value === undefined ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const matchesPattern = (pattern: string, value: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(value);
+  } catch (_) {
+    // An invalid pattern from the server should not stop the user
+    return true;
+  }
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch (_) {
+    return false;
+  }
+};
+
+const isIsoDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const validateValue = (
+  field: AtsConfigField,
+  value: AtsConfigFieldValue | undefined
+): AtsConfigValidationError | undefined => {
+  if (field.required && (isEmpty(value) || value === false)) {
+    return { code: "required", message: `${field.label} is required` };
+  }
+  if (isEmpty(value) || typeof value === "boolean" || Array.isArray(value)) {
+    return undefined;
+  }
+  const text = String(value);
+  if (field.type === "url" && !isHttpUrl(text)) {
+    return { code: "invalid-url", message: "Enter a full http(s) address" };
+  }
+  if (field.type === "date" && !isIsoDate(text)) {
+    return { code: "invalid-date", message: "Enter a date as yyyy-mm-dd" };
+  }
+  const minLength = field["min-length"];
+  if (minLength !== undefined && text.length < minLength) {
+    return {
+      code: "min-length",
+      message: `Enter at least ${minLength} characters`,
+    };
+  }
+  const maxLength = field["max-length"];
+  if (maxLength !== undefined && text.length > maxLength) {
+    return {
+      code: "max-length",
+      message: `Enter at most ${maxLength} characters`,
+    };
+  }
+  const pattern = field.pattern;
+  if (pattern !== undefined && !matchesPattern(pattern, text)) {
+    return { code: "pattern", message: "The value has the wrong format" };
+  }
+  const { min, max } = field;
+  if (field.type !== "number" && min === undefined && max === undefined) {
+    return undefined;
+  }
+  const number = typeof value === "number" ? value : Number(text.trim());
+  if (!Number.isFinite(number)) {
+    return { code: "not-a-number", message: "Enter a number" };
+  }
+  if (min !== undefined && number < min) {
+    return { code: "min", message: `Enter ${min} or more` };
+  }
+  if (max !== undefined && number > max) {
+    return { code: "max", message: `Enter ${max} or less` };
+  }
+  return undefined;
+};
+
+/**
+ * Validates the values of a config UI against the validation metadata of its
+ * fields. values has the current value of the fields, keyed on field id;
+ * fields without an entry have the value sent from the config endpoint.
+ * Label fields and fields that are disabled or hidden are not validated since
+ * their values are not submitted.
+ */
+export const validateConfigValues = (
+  fields: ReadonlyArray<AtsConfigField>,
+  values: AtsConfigEdits
+): AtsConfigValidationErrors => {
+  const errors: Record<string, AtsConfigValidationError> = {};
+  const states = getFieldStates(fields, values);
+  for (const field of fields) {
+    const { visible, enabled } = getFieldState(states, field);
+    if (isLabelField(field) || field.disabled || !visible || !enabled) {
+      continue;
+    }
+    const error = validateValue(field, getFieldValue(field, values));
+    if (error) {
+      errors[field.id] = error;
+    }
+  }
+  return errors;
+};
+
+export const isConfigValid = (errors: AtsConfigValidationErrors) =>
+  Object.keys(errors).length === 0;
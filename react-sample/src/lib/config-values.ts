@@ -0,0 +1,120 @@
+import {
+  AtsConfigField,
+  AtsConfigFieldValue,
+  HtmlConfigOption,
+  refappLabelFieldTypes,
+  RefappLabelFieldTypes,
+} from "./ats-types";
+import { assertIsNever } from "./typehelpers";
+
+/**
+ * Values the user has changed in the UI, keyed on field id
+ */
+export type AtsConfigEdits = Readonly<Record<string, AtsConfigFieldValue>>;
+
+export type AtsLabelConfigField = Extract<
+  AtsConfigField,
+  { type: RefappLabelFieldTypes }
+>;
+export type AtsInputConfigField = Exclude<
+  AtsConfigField,
+  { type: RefappLabelFieldTypes }
+>;
+
+export const isLabelField = (
+  field: AtsConfigField
+): field is AtsLabelConfigField =>
+  (refappLabelFieldTypes as ReadonlyArray<string>).includes(field.type);
+
+/**
+ * The value to show for a field: the user's edit if there is one, otherwise
+ * the value sent from the config endpoint
+ */
+export const getFieldValue = (
+  field: AtsConfigField,
+  edits: AtsConfigEdits
+): AtsConfigFieldValue | undefined =>
+  Object.prototype.hasOwnProperty.call(edits, field.id)
+    ? edits[field.id]
+    : field.value;
+
+const isValidEdit = (
+  field: AtsConfigField | undefined,
+  value: AtsConfigFieldValue
+): boolean => {
+  if (!field || isLabelField(field) || field.disabled) {
+    return false;
+  }
+  const isOption = (id: unknown) =>
+    (field.options ?? []).some(
+      (option) => option.id === id && !option.disabled
+    );
+  switch (field.type) {
+    case "checkbox":
+      return typeof value === "boolean";
+    case "select":
+      // Remote options are not known until searched for
+      return field["options-source"]
+        ? typeof value === "string"
+        : isOption(value);
+    case "radio":
+      return isOption(value);
+    case "multi-select":
+      return Array.isArray(value) && value.every(isOption);
+    case "number":
+      return typeof value === "string" || typeof value === "number";
+    case "text":
+    case "textarea":
+    case "url":
+    case "date":
+      return typeof value === "string";
+  }
+  return assertIsNever(field);
+};
+
+/**
+ * Keeps the edits that still apply to the fields returned from a refetch.
+ * Edits for fields that were removed, changed into labels or disabled, or
+ * whose value is no longer among the enabled options, are dropped so the
+ * server provided value is shown instead.
+ */
+export const mergeRefetchedEdits = (
+  fields: ReadonlyArray<AtsConfigField>,
+  edits: AtsConfigEdits
+): AtsConfigEdits => {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const result: Record<string, AtsConfigFieldValue> = {};
+  for (const [id, value] of Object.entries(edits)) {
+    if (isValidEdit(fieldsById.get(id), value)) {
+      result[id] = value;
+    }
+  }
+  return result;
+};
+
+export type HtmlConfigOptionGroup = Readonly<{
+  /**
+   * Undefined for the options that have no group
+   */
+  group: string | undefined;
+  options: ReadonlyArray<HtmlConfigOption>;
+}>;
+
+/**
+ * Groups the options on their group, keeping the order in which the groups
+ * first appear and the order of the options within each group
+ */
+export const groupConfigOptions = (
+  options: ReadonlyArray<HtmlConfigOption>
+): ReadonlyArray<HtmlConfigOptionGroup> => {
+  const groups = new Map<string | undefined, HtmlConfigOption[]>();
+  for (const option of options) {
+    const group = groups.get(option.group);
+    if (group) {
+      group.push(option);
+    } else {
+      groups.set(option.group, [option]);
+    }
+  }
+  return Array.from(groups, ([group, options]) => ({ group, options }));
+};
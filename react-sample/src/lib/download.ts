@@ -0,0 +1,15 @@
+/**
+ * Saves the content as a file through the browser's downloads
+ */
+export const downloadFile = (
+  fileName: string,
+  content: string,
+  type: string = "application/json"
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  deleteEnvironmentProfile,
+  Environment,
+  exportEnvironmentProfiles,
+  guessEnvironmentKind,
+  importEnvironmentProfiles,
+  isProductionEnvironment,
+  loadEnvironmentProfiles,
+  loadEnvironmentSession,
+  saveEnvironmentProfile,
+  saveEnvironmentSession,
+} from "./environment-profiles";
+
+/**
+ * The Storage interface over a Map, for local and session storage
+ */
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+  };
+};
+
+const storedText = (storage: Storage) =>
+  Array.from({ length: storage.length }, (_, index) =>
+    storage.getItem(storage.key(index))
+  ).join("\n");
+
+const staging: Environment = {
+  name: "Staging",
+  kind: "staging",
+  configEndpoint: "https://ats.staging.example.com/refapp/config",
+  postEndpoint: "https://staging.refapp.example.com/api/partner-event",
+  customerDomain: "example.com",
+  resultsSinkUrl: "http://localhost:4000/results",
+  atsSecret: "ats-secret-value",
+  customerSecret: "customer-secret-value",
+};
+
+describe("guessEnvironmentKind", () => {
+  it.each([
+    ["http://localhost:4000/config", "local"],
+    ["http://refapp.localhost/config", "local"],
+    ["http://127.0.0.1:3000", "local"],
+    ["http://[::1]:3000", "local"],
+    ["https://staging.refapp.example.com", "staging"],
+    ["https://refapp-dev.example.com", "staging"],
+    ["https://qa.example.com", "staging"],
+    ["https://app.refapp.se/api", "production"],
+    ["https://testimonials.example.com", "production"],
+    ["not a url", undefined],
+    ["", undefined],
+  ])("guesses %s as %s", (endpoint, kind) => {
+    expect(guessEnvironmentKind(endpoint)).toBe(kind);
+  });
+});
+
+describe("isProductionEnvironment", () => {
+  it("trusts a production kind", () => {
+    expect(isProductionEnvironment({ ...staging, kind: "production" })).toBe(
+      true
+    );
+  });
+
+  it("warns about a production endpoint in another kind of profile", () => {
+    expect(isProductionEnvironment(staging)).toBe(false);
+    expect(
+      isProductionEnvironment({
+        ...staging,
+        postEndpoint: "https://app.refapp.se/api/partner-event",
+      })
+    ).toBe(true);
+    expect(
+      isProductionEnvironment({
+        ...staging,
+        kind: "local",
+        configEndpoint: "",
+        postEndpoint: "",
+      })
+    ).toBe(false);
+  });
+});
+
+describe("saveEnvironmentProfile", () => {
+  it("stores the profiles sorted by name and without secrets", () => {
+    const storage = createStorage();
+    saveEnvironmentProfile(staging, storage);
+    const profiles = saveEnvironmentProfile(
+      { ...staging, name: "Local", kind: "local" },
+      storage
+    );
+    expect(profiles.map(({ name }) => name)).toEqual(["Local", "Staging"]);
+    expect(profiles[1]).not.toHaveProperty("atsSecret");
+    expect(storedText(storage)).not.toContain("secret-value");
+    expect(loadEnvironmentProfiles(storage)).toEqual(profiles);
+  });
+
+  it("replaces a profile with the same name", () => {
+    const storage = createStorage();
+    saveEnvironmentProfile(staging, storage);
+    expect(
+      saveEnvironmentProfile(
+        { ...staging, customerDomain: "acme.test" },
+        storage
+      )
+    ).toEqual([
+      expect.objectContaining({ name: "Staging", customerDomain: "acme.test" }),
+    ]);
+    expect(deleteEnvironmentProfile("Staging", storage)).toEqual([]);
+  });
+
+  it("leaves out invalid stored profiles", () => {
+    const storage = createStorage();
+    storage.setItem(
+      "refapp-sample:environment-profiles",
+      JSON.stringify([{ name: "" }, { ...staging, kind: "unknown" }, "x"])
+    );
+    expect(loadEnvironmentProfiles(storage)).toEqual([]);
+    storage.setItem("refapp-sample:environment-profiles", "{");
+    expect(loadEnvironmentProfiles(storage)).toEqual([]);
+  });
+});
+
+describe("exportEnvironmentProfiles", () => {
+  it("never exports the secrets", () => {
+    const json = exportEnvironmentProfiles([staging]);
+    expect(json).not.toContain("secret-value");
+    expect(importEnvironmentProfiles(json)).toEqual({
+      profiles: [
+        {
+          name: "Staging",
+          kind: "staging",
+          configEndpoint: staging.configEndpoint,
+          postEndpoint: staging.postEndpoint,
+          customerDomain: "example.com",
+          resultsSinkUrl: staging.resultsSinkUrl,
+        },
+      ],
+      issues: [],
+    });
+  });
+});
+
+describe("importEnvironmentProfiles", () => {
+  it("drops secrets in the file", () => {
+    const { profiles } = importEnvironmentProfiles(
+      JSON.stringify({ profiles: [staging] })
+    );
+    expect(profiles).toHaveLength(1);
+    expect(JSON.stringify(profiles)).not.toContain("secret-value");
+  });
+
+  it("reports files that are not exported profiles", () => {
+    expect(importEnvironmentProfiles("{").issues).toHaveLength(1);
+    const invalid = importEnvironmentProfiles(
+      JSON.stringify({ profiles: [{ ...staging, kind: "unknown" }] })
+    );
+    expect(invalid.profiles).toEqual([]);
+    expect(invalid.issues).toEqual([
+      expect.stringMatching(/^profiles\[0\]\.kind: /),
+    ]);
+  });
+});
+
+describe("saveEnvironmentSession", () => {
+  it("keeps the secrets only in the given storage until removed", () => {
+    const storage = createStorage();
+    const session = {
+      current: { ...staging, name: "" },
+      secrets: { Staging: { atsSecret: "a", customerSecret: "c" } },
+    };
+    saveEnvironmentSession(session, storage);
+    expect(loadEnvironmentSession(storage)).toEqual(session);
+    saveEnvironmentSession(undefined, storage);
+    expect(storage.length).toBe(0);
+    expect(loadEnvironmentSession(storage)).toBeUndefined();
+  });
+});
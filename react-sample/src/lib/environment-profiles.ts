@@ -0,0 +1,274 @@
+import { z, type ZodType } from "zod";
+import { toIssues } from "./http-handlers";
+
+/**
+ * Named endpoints and credentials for the live test, so switching between a
+ * local, staging and production Refapp is a single choice. Profiles are kept
+ * in local storage without their secrets. Secrets are only kept in session
+ * storage, and only when the user asks for it.
+ */
+
+export const environmentKindValues = [
+  "local",
+  "staging",
+  "production",
+] as const;
+export type EnvironmentKind = (typeof environmentKindValues)[number];
+
+export type EnvironmentProfile = Readonly<{
+  name: string;
+  kind: EnvironmentKind;
+  configEndpoint: string;
+  postEndpoint: string;
+  customerDomain: string;
+  resultsSinkUrl: string;
+}>;
+
+export type EnvironmentSecrets = Readonly<{
+  atsSecret: string;
+  customerSecret: string;
+}>;
+
+export type Environment = EnvironmentProfile & EnvironmentSecrets;
+
+export const emptySecrets: EnvironmentSecrets = {
+  atsSecret: "",
+  customerSecret: "",
+};
+
+export const emptyEnvironment: Environment = {
+  name: "",
+  kind: "local",
+  configEndpoint: "",
+  postEndpoint: "",
+  customerDomain: "",
+  resultsSinkUrl: "",
+  ...emptySecrets,
+};
+
+const environmentProfileShape = {
+  name: z.string().trim().min(1),
+  kind: z.enum(environmentKindValues),
+  configEndpoint: z.string(),
+  postEndpoint: z.string(),
+  customerDomain: z.string(),
+  resultsSinkUrl: z.string(),
+};
+
+const environmentSecretsShape = {
+  atsSecret: z.string(),
+  customerSecret: z.string(),
+};
+
+const environmentProfileSchema: ZodType<EnvironmentProfile> = z.object(
+  environmentProfileShape
+);
+
+const environmentSecretsSchema: ZodType<EnvironmentSecrets> = z.object(
+  environmentSecretsShape
+);
+
+export const withoutSecrets = ({
+  name,
+  kind,
+  configEndpoint,
+  postEndpoint,
+  customerDomain,
+  resultsSinkUrl,
+}: EnvironmentProfile): EnvironmentProfile => ({
+  name,
+  kind,
+  configEndpoint,
+  postEndpoint,
+  customerDomain,
+  resultsSinkUrl,
+});
+
+export const toSecrets = ({
+  atsSecret,
+  customerSecret,
+}: EnvironmentSecrets): EnvironmentSecrets => ({ atsSecret, customerSecret });
+
+/**
+ * The kind of Refapp an endpoint looks like, or undefined if it is not a url
+ */
+export const guessEnvironmentKind = (
+  endpoint: string
+): EnvironmentKind | undefined => {
+  let hostname: string;
+  try {
+    hostname = new URL(endpoint).hostname;
+  } catch (_) {
+    return undefined;
+  }
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname === "[::1]" ||
+    /^127\./.test(hostname)
+  ) {
+    return "local";
+  }
+  return /(^|[.-])(staging|stage|test|dev|qa)([.-]|$)/i.test(hostname)
+    ? "staging"
+    : "production";
+};
+
+/**
+ * Production when the profile says so, or when an endpoint looks like
+ * production, so a production url pasted into a staging profile still warns
+ */
+export const isProductionEnvironment = (environment: EnvironmentProfile) =>
+  environment.kind === "production" ||
+  [environment.configEndpoint, environment.postEndpoint].some(
+    (endpoint) => guessEnvironmentKind(endpoint) === "production"
+  );
+
+const profilesStorageKey = "refapp-sample:environment-profiles";
+
+/**
+ * The saved profiles, sorted by name. Invalid profiles are left out.
+ */
+export const loadEnvironmentProfiles = (
+  storage: Storage = localStorage
+): ReadonlyArray<EnvironmentProfile> => {
+  try {
+    const stored: unknown = JSON.parse(
+      storage.getItem(profilesStorageKey) ?? "[]"
+    );
+    return (Array.isArray(stored) ? stored : [])
+      .map((profile) => environmentProfileSchema.safeParse(profile))
+      .filter((result) => result.success)
+      .map((result) => result.data)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (_) {
+    return [];
+  }
+};
+
+const storeProfiles = (
+  profiles: ReadonlyArray<EnvironmentProfile>,
+  storage: Storage
+) =>
+  storage.setItem(
+    profilesStorageKey,
+    JSON.stringify(profiles.map(withoutSecrets))
+  );
+
+/**
+ * Saves the profile without its secrets, replacing any profile with the same
+ * name
+ */
+export const saveEnvironmentProfile = (
+  profile: EnvironmentProfile,
+  storage: Storage = localStorage
+): ReadonlyArray<EnvironmentProfile> => {
+  storeProfiles(
+    [
+      ...loadEnvironmentProfiles(storage).filter(
+        ({ name }) => name !== profile.name
+      ),
+      profile,
+    ],
+    storage
+  );
+  return loadEnvironmentProfiles(storage);
+};
+
+export const deleteEnvironmentProfile = (
+  name: string,
+  storage: Storage = localStorage
+): ReadonlyArray<EnvironmentProfile> => {
+  storeProfiles(
+    loadEnvironmentProfiles(storage).filter((profile) => profile.name !== name),
+    storage
+  );
+  return loadEnvironmentProfiles(storage);
+};
+
+const exportSchema = z.object({
+  profiles: z.array(environmentProfileSchema),
+});
+
+/**
+ * JSON for sharing profiles with the team. Secrets are never exported.
+ */
+export const exportEnvironmentProfiles = (
+  profiles: ReadonlyArray<EnvironmentProfile>
+) => JSON.stringify({ profiles: profiles.map(withoutSecrets) }, undefined, 2);
+
+export type EnvironmentProfilesImport = Readonly<{
+  profiles: ReadonlyArray<EnvironmentProfile>;
+  issues: ReadonlyArray<string>;
+}>;
+
+/**
+ * Reads exported profiles. Any secrets in the file are dropped.
+ */
+export const importEnvironmentProfiles = (
+  json: string
+): EnvironmentProfilesImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      profiles: [],
+      issues: [e instanceof Error ? e.message : String(e)],
+    };
+  }
+  const result = exportSchema.safeParse(parsed);
+  return result.success
+    ? {
+        profiles: result.data.profiles.map((profile) =>
+          withoutSecrets(profile)
+        ),
+        issues: [],
+      }
+    : { profiles: [], issues: toIssues(result.error) };
+};
+
+/**
+ * What is kept for the browser session when the user asks for it: the
+ * current environment and the secrets of the profiles used
+ */
+export type EnvironmentSession = Readonly<{
+  current: Environment;
+  secrets: Readonly<Record<string, EnvironmentSecrets>>;
+}>;
+
+const sessionStorageKey = "refapp-sample:environment-session";
+
+// The current environment does not need a name, unlike a saved profile
+const environmentSessionSchema: ZodType<EnvironmentSession> = z.object({
+  current: z.object({
+    ...environmentProfileShape,
+    name: z.string(),
+    ...environmentSecretsShape,
+  }),
+  secrets: z.record(z.string(), environmentSecretsSchema),
+});
+
+export const loadEnvironmentSession = (
+  storage: Storage = sessionStorage
+): EnvironmentSession | undefined => {
+  try {
+    const result = environmentSessionSchema.safeParse(
+      JSON.parse(storage.getItem(sessionStorageKey) ?? "null")
+    );
+    return result.success ? result.data : undefined;
+  } catch (_) {
+    return undefined;
+  }
+};
+
+/**
+ * Saves the session, or removes it when undefined
+ */
+export const saveEnvironmentSession = (
+  session: EnvironmentSession | undefined,
+  storage: Storage = sessionStorage
+) =>
+  session
+    ? storage.setItem(sessionStorageKey, JSON.stringify(session))
+    : storage.removeItem(sessionStorageKey);
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  atsCandidateSchema,
+  atsPartnerEventPayloadSchema,
+  atsRefereeSchema,
+} from "./ats-types";
+import { createFaker, fakeLocaleValues, fakeUnsetValues } from "./fake-data";
+
+const seeds = [1, 2, 3, 42, 2 ** 31, 2 ** 32 - 1];
+
+const settings = fakeUnsetValues.flatMap((unset) =>
+  [false, true].map((edgeCases) => ({ unset, edgeCases }))
+);
+
+describe("createFaker", () => {
+  it("gives the same data for the same seed and options", () => {
+    const make = () => {
+      const faker = createFaker({ seed: 7, edgeCases: true, unset: "mixed" });
+      return [faker.payload(), faker.candidate(), faker.referee()];
+    };
+    expect(make()).toEqual(make());
+    const other = createFaker({ seed: 8, edgeCases: true, unset: "mixed" });
+    expect(other.payload()).not.toEqual(make()[0]);
+  });
+
+  it("reports the seed, also when it is random", () => {
+    expect(createFaker({ seed: 5 }).seed).toBe(5);
+    const { seed } = createFaker();
+    expect(createFaker({ seed }).payload()).toEqual(
+      createFaker({ seed }).payload()
+    );
+  });
+
+  it.each(settings)(
+    "generates valid data with unset $unset and edgeCases $edgeCases",
+    (options) => {
+      for (const seed of seeds) {
+        for (const locale of [undefined, ...fakeLocaleValues]) {
+          const faker = createFaker({ ...options, seed, locale });
+          const context = JSON.stringify({ ...options, seed, locale });
+          const payload = atsPartnerEventPayloadSchema.safeParse(
+            faker.payload()
+          );
+          expect(payload.error && context).toBeUndefined();
+          const candidate = atsCandidateSchema.safeParse(faker.candidate());
+          expect(candidate.error && context).toBeUndefined();
+          const referee = atsRefereeSchema.safeParse(faker.referee());
+          expect(referee.error && context).toBeUndefined();
+        }
+      }
+    }
+  );
+
+  it("generates every optional value with an optional rate of 1", () => {
+    const candidate = createFaker({ seed: 1, optionalRate: 1 }).candidate();
+    expect(candidate.recruiter.phone).toEqual(expect.any(String));
+    expect(candidate.referees?.length).toBeGreaterThan(0);
+  });
+
+  it("uses the recruiter domain", () => {
+    const faker = createFaker({ seed: 3, recruiterDomain: "acme.test" });
+    expect(faker.recruiter().email).toMatch(/@acme\.test$/);
+  });
+});
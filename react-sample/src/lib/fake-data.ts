@@ -0,0 +1,525 @@
+import * as _ from "lodash";
+import { z } from "zod";
+import {
+  atsCandidateSchema,
+  atsCompanySchema,
+  atsJobSchema,
+  atsPartnerEventPayloadSchema,
+  atsPartnerEventSchema,
+  atsRecruiterSchema,
+  atsRefereeSchema,
+} from "./ats-types";
+
+/**
+ * Seedable fake data for the ATS schemas, for tests and the sample app.
+ * Values are generated by walking the zod schemas, with realistic values for
+ * the keys that mean something (names, emails, phone numbers, languages...),
+ * so keys added to the schemas are covered without changes here. The same
+ * seed and options always give the same data.
+ */
+
+export const fakeLocaleValues = ["sv", "en-GB"] as const;
+export type FakeLocale = (typeof fakeLocaleValues)[number];
+
+/**
+ * How "language" is written: "sv", "sv-SE" or the ISO 639-2 fallback "swe"
+ */
+export const fakeLanguageFormatValues = [
+  "iso-639-1",
+  "locale",
+  "iso-639-2",
+] as const;
+export type FakeLanguageFormat = (typeof fakeLanguageFormatValues)[number];
+
+/**
+ * How "phone" is written: "+46701740605", "0701740605" with
+ * "country-calling-code" "+46", or "0701740605" without a calling code
+ */
+export const fakePhoneFormatValues = [
+  "international",
+  "split",
+  "national",
+] as const;
+export type FakePhoneFormat = (typeof fakePhoneFormatValues)[number];
+
+/**
+ * How optional values that are not generated are sent: left out, undefined
+ * or null (for the keys that accept null). "mixed" picks one for each value.
+ */
+export const fakeUnsetValues = ["omit", "undefined", "null", "mixed"] as const;
+export type FakeUnset = (typeof fakeUnsetValues)[number];
+
+export type FakeDataOptions = Readonly<{
+  /**
+   * A random seed is used if not set, see Faker.seed
+   */
+  seed?: number;
+  /**
+   * Locale of names, phone numbers and texts. Picked for each person if not
+   * set.
+   */
+  locale?: FakeLocale;
+  /**
+   * Picked for each person if not set
+   */
+  languageFormat?: FakeLanguageFormat;
+  /**
+   * Picked for each person if not set
+   */
+  phoneFormat?: FakePhoneFormat;
+  /**
+   * Share of optional values that are generated, 0.5 by default
+   */
+  optionalRate?: number;
+  /**
+   * "omit" by default
+   */
+  unset?: FakeUnset;
+  /**
+   * Mixes in values that integrations tend to get wrong: apostrophes,
+   * diacritics, very long names, padding, plus-addressed emails, formatted
+   * phone numbers, numeric ids, empty strings...
+   */
+  edgeCases?: boolean;
+  /**
+   * Email domain of recruiters, example.com by default
+   */
+  recruiterDomain?: string;
+}>;
+
+type AtsCompanyIncoming = z.input<typeof atsCompanySchema>;
+type AtsRecruiterIncoming = z.input<typeof atsRecruiterSchema>;
+type AtsJobIncoming = z.input<typeof atsJobSchema>;
+type AtsRefereeIncoming = z.input<typeof atsRefereeSchema>;
+type AtsCandidateIncoming = z.input<typeof atsCandidateSchema>;
+type AtsPartnerEventIncoming = z.input<typeof atsPartnerEventSchema>;
+type AtsPartnerEventPayloadIncoming = z.input<
+  typeof atsPartnerEventPayloadSchema
+>;
+
+export type Faker = Readonly<{
+  /**
+   * The seed in use, to reproduce the data with the same options
+   */
+  seed: number;
+  /**
+   * Any schema, e.g. the config schema or a partial of an ATS schema
+   */
+  fromSchema: <T extends z.core.$ZodType>(schema: T) => z.input<T>;
+  company: () => AtsCompanyIncoming;
+  recruiter: () => AtsRecruiterIncoming;
+  job: () => AtsJobIncoming;
+  referee: () => AtsRefereeIncoming;
+  candidate: () => AtsCandidateIncoming;
+  partnerEvent: () => AtsPartnerEventIncoming;
+  payload: () => AtsPartnerEventPayloadIncoming;
+}>;
+
+type Random = Readonly<{
+  next: () => number;
+  int: (min: number, max: number) => number;
+  chance: (rate: number) => boolean;
+  pick: <T>(values: ReadonlyArray<T>) => T;
+}>;
+
+/**
+ * mulberry32, small and good enough for test data
+ */
+const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) =>
+    min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    int,
+    chance: (rate) => next() < rate,
+    pick: (values) => values[int(0, values.length - 1)],
+  };
+};
+
+type LocaleData = Readonly<{
+  firstNames: ReadonlyArray<string>;
+  lastNames: ReadonlyArray<string>;
+  languages: Readonly<Record<FakeLanguageFormat, string>>;
+  callingCode: string;
+  /**
+   * A mobile number without the trunk prefix, from the ranges set aside for
+   * drama and fiction so nobody gets called
+   */
+  mobileNumber: (random: Random) => string;
+  jobTitles: ReadonlyArray<string>;
+  companyNames: ReadonlyArray<string>;
+  descriptions: ReadonlyArray<string>;
+}>;
+
+const localeData: Readonly<Record<FakeLocale, LocaleData>> = {
+  "sv": {
+    firstNames: ["Anna", "Erik", "Maria", "Lars", "Karin", "Johan", "Elin"],
+    lastNames: ["Andersson", "Johansson", "Karlsson", "Nilsson", "Lindqvist"],
+    languages: { "iso-639-1": "sv", "locale": "sv-SE", "iso-639-2": "swe" },
+    callingCode: "+46",
+    // PTS: 070-174 06 05 to 070-174 06 99
+    mobileNumber: (random) =>
+      `7017406${String(random.int(5, 99)).padStart(2, "0")}`,
+    jobTitles: ["Säljare", "Systemutvecklare", "Ekonomiassistent", "Lagerchef"],
+    companyNames: ["Exempelbolaget AB", "Testfabriken AB", "Provkedjan AB"],
+    descriptions: [
+      "Rekrytering inför hösten",
+      "Ersätter föräldraledig kollega",
+    ],
+  },
+  "en-GB": {
+    firstNames: ["Oliver", "Amelia", "George", "Isla", "Harry", "Sophie"],
+    lastNames: ["Smith", "Jones", "Taylor", "Brown", "Williams", "Evans"],
+    languages: { "iso-639-1": "en", "locale": "en-GB", "iso-639-2": "eng" },
+    callingCode: "+44",
+    // Ofcom: 07700 900000 to 07700 900999
+    mobileNumber: (random) =>
+      `7700900${String(random.int(0, 999)).padStart(3, "0")}`,
+    jobTitles: ["Sales Manager", "Software Developer", "Accountant", "Nurse"],
+    companyNames: ["Example Ltd", "Sample Holdings plc", "Placeholder & Co"],
+    descriptions: ["Autumn intake", "Covers parental leave"],
+  },
+};
+
+const edgeCaseRate = 0.3;
+
+const edgeCaseFirstNames = [
+  "D'Arcy",
+  "Anna-Karin",
+  "Åsa-Märta",
+  "Zoë",
+  "Nguyễn Thị",
+  " Erik ",
+  "X",
+];
+
+const edgeCaseLastNames = [
+  "O'Brien",
+  "Öberg-Lindström",
+  "von Essen",
+  "Ó Súilleabháin",
+  "Wolfeschlegelsteinhausenbergerdorff",
+  " Svensson ",
+];
+
+const edgeCaseStrings = [
+  "",
+  " ",
+  "Ünïcödé ✓",
+  "<b>not html</b>",
+  "Line\nbreak",
+  "a".repeat(300),
+];
+
+const edgeCaseNumbers = [0, -1, 2147483648];
+
+const words = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot"];
+
+const idCharacters = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+const randomId = (random: Random) =>
+  _.times(10, () => random.pick(idCharacters.split(""))).join("");
+
+const randomUuid = (random: Random) =>
+  "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) =>
+    (c === "x" ? random.int(0, 15) : random.int(8, 11)).toString(16)
+  );
+
+type Person = Readonly<{
+  locale: FakeLocale;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  callingCode?: string;
+  language: string;
+}>;
+
+type ResolvedOptions = Required<
+  Pick<
+    FakeDataOptions,
+    "optionalRate" | "unset" | "edgeCases" | "recruiterDomain"
+  >
+> &
+  Pick<FakeDataOptions, "locale" | "languageFormat" | "phoneFormat">;
+
+const toEmailPart = (name: string) =>
+  _.deburr(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const createPerson = (
+  random: Random,
+  options: ResolvedOptions,
+  domain: string
+): Person => {
+  const locale = options.locale ?? random.pick(fakeLocaleValues);
+  const data = localeData[locale];
+  const edgeCase = () => options.edgeCases && random.chance(edgeCaseRate);
+  const firstName = edgeCase()
+    ? random.pick(edgeCaseFirstNames)
+    : random.pick(data.firstNames);
+  const lastName = edgeCase()
+    ? random.pick(edgeCaseLastNames)
+    : random.pick(data.lastNames);
+
+  const local = `${toEmailPart(firstName)}.${toEmailPart(lastName)}${random.int(1, 99)}`;
+  const email = edgeCase()
+    ? random.pick([
+        `${local}+ats@${domain}`,
+        `${local}@${domain}`.toUpperCase(),
+        `${local}@mail.${domain}`,
+      ])
+    : `${local}@${domain}`;
+
+  const number = data.mobileNumber(random);
+  const phoneFormat = options.phoneFormat ?? random.pick(fakePhoneFormatValues);
+  const formattedPhone = edgeCase();
+  const phone = formattedPhone
+    ? random.pick([
+        `${data.callingCode} (0)${number}`,
+        `00${data.callingCode.slice(1)} ${number.slice(0, 2)} ${number.slice(2)}`,
+        `0${number.slice(0, 2)}-${number.slice(2)}`,
+      ])
+    : phoneFormat === "international"
+      ? `${data.callingCode}${number}`
+      : `0${number}`;
+
+  return {
+    locale,
+    firstName,
+    lastName,
+    email,
+    phone,
+    callingCode:
+      phoneFormat === "split" && !formattedPhone ? data.callingCode : undefined,
+    language:
+      data.languages[
+        options.languageFormat ?? random.pick(fakeLanguageFormatValues)
+      ],
+  };
+};
+
+type Context = Readonly<{
+  random: Random;
+  options: ResolvedOptions;
+  /**
+   * Keys and indexes from the schema passed to the faker
+   */
+  path: ReadonlyArray<string | number>;
+  person?: Person;
+}>;
+
+/**
+ * Keys that need a working key or endpoint, so they are only set by the
+ * caller
+ */
+const neverGeneratedKeys = ["ats-public-key", "update-url"];
+
+/**
+ * Nesting below this only takes the first option of unions and empty arrays,
+ * so recursive schemas end
+ */
+const maxDepth = 6;
+
+const pickLocale = ({ random, options, person }: Context) =>
+  person?.locale ?? options.locale ?? random.pick(fakeLocaleValues);
+
+/**
+ * Values for keys that mean the same thing wherever they are in the ATS
+ * schemas. They are only used when the schema accepts them.
+ */
+const keyValues: Readonly<Record<string, (context: Context) => unknown>> = {
+  "id": ({ random, options }) =>
+    options.edgeCases && random.chance(edgeCaseRate)
+      ? random.int(1, 99999)
+      : randomId(random),
+  "uuid": ({ random }) => randomUuid(random),
+  "first-name": ({ person }) => person?.firstName,
+  "last-name": ({ person }) => person?.lastName,
+  "name": (context) =>
+    context.person
+      ? `${context.person.firstName} ${context.person.lastName}`
+      : context.random.pick(localeData[pickLocale(context)].companyNames),
+  "email": ({ person }) => person?.email,
+  "phone": ({ person }) => person?.phone,
+  "country-calling-code": ({ person }) => person?.callingCode,
+  "language": ({ person }) => person?.language,
+  "title": (context) =>
+    context.random.pick(localeData[pickLocale(context)].jobTitles),
+  "client-name": (context) =>
+    context.random.pick(localeData[pickLocale(context)].companyNames),
+  "description": (context) =>
+    context.random.pick(localeData[pickLocale(context)].descriptions),
+  "ats-name": ({ random }) => random.pick(["Sample ATS", "Sample ATS 2"]),
+  "ats-url": ({ random, path }) =>
+    `https://ats.example/${
+      _.findLast(path.slice(0, -1), (key) => typeof key === "string") ??
+      "entity"
+    }/${randomId(random)}`,
+  "private-title": ({ random }) => random.chance(0.2),
+};
+
+const isRecruiterPath = (path: ReadonlyArray<string | number>) =>
+  path.includes("recruiter") || path.includes("recruiting-team");
+
+const fakeObject = (
+  def: z.core.$ZodObjectDef,
+  context: Context
+): Record<string, unknown> => {
+  const { random, options, path } = context;
+  const shape = def.shape;
+  const person =
+    "first-name" in shape
+      ? createPerson(
+          random,
+          options,
+          isRecruiterPath(path) ? options.recruiterDomain : "private.example"
+        )
+      : context.person;
+  const result: Record<string, unknown> = {};
+  Object.entries(shape).forEach(([key, schema]) => {
+    const keyContext = { ...context, path: [...path, key], person };
+    const semantic = keyValues[key]?.(keyContext);
+    const optional = schema._zod.optin === "optional";
+    const generate =
+      !optional ||
+      (!neverGeneratedKeys.includes(key) &&
+        (key === "country-calling-code"
+          ? result["phone"] !== undefined && semantic !== undefined
+          : random.chance(options.optionalRate)));
+    if (generate) {
+      result[key] =
+        semantic !== undefined && z.safeParse(schema, semantic).success
+          ? semantic
+          : fakeValue(schema, keyContext);
+      return;
+    }
+    const unset =
+      options.unset === "mixed"
+        ? random.pick(["omit", "undefined", "null"])
+        : options.unset;
+    if (unset === "null" && z.safeParse(schema, null).success) {
+      result[key] = null;
+    } else if (unset === "undefined") {
+      result[key] = undefined;
+    }
+  });
+  return result;
+};
+
+const fakeValue = (schema: z.core.$ZodType, context: Context): unknown => {
+  const { random, options, path } = context;
+  const def = schema._zod.def;
+  const tooDeep = path.length > maxDepth;
+  // Edge cases that break checks in the schema, like min and max, are skipped
+  const edgeCaseOr = <T>(edgeCases: ReadonlyArray<T>, value: T) => {
+    if (options.edgeCases && random.chance(edgeCaseRate)) {
+      const edgeCase = random.pick(edgeCases);
+      return z.safeParse(schema, edgeCase).success ? edgeCase : value;
+    }
+    return value;
+  };
+  switch (def.type) {
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "nonoptional":
+    case "readonly":
+    case "catch":
+      return fakeValue((def as z.core.$ZodOptionalDef).innerType, context);
+    case "pipe":
+      return fakeValue((def as z.core.$ZodPipeDef).in, context);
+    case "lazy":
+      return fakeValue((def as z.core.$ZodLazyDef).getter(), context);
+    case "object":
+      return fakeObject(def as z.core.$ZodObjectDef, context);
+    case "array": {
+      const { element } = def as z.core.$ZodArrayDef;
+      return tooDeep
+        ? []
+        : _.times(random.int(1, 3), (index) =>
+            fakeValue(element, { ...context, path: [...path, index] })
+          );
+    }
+    case "record": {
+      const { valueType } = def as z.core.$ZodRecordDef;
+      return tooDeep
+        ? {}
+        : _.fromPairs(
+            _.times(random.int(0, 3), (index) => {
+              const key = `${random.pick(words)}-${index + 1}`;
+              return [
+                key,
+                fakeValue(valueType, { ...context, path: [...path, key] }),
+              ];
+            })
+          );
+    }
+    case "union": {
+      const { options: unionOptions } = def as z.core.$ZodUnionDef;
+      return fakeValue(
+        tooDeep ? unionOptions[0] : random.pick(unionOptions),
+        context
+      );
+    }
+    case "enum":
+      return random.pick(Object.values((def as z.core.$ZodEnumDef).entries));
+    case "literal":
+      return random.pick(
+        (def as z.core.$ZodLiteralDef<z.core.util.Literal>).values
+      );
+    case "string":
+      return edgeCaseOr(edgeCaseStrings, random.pick(words));
+    case "number":
+    case "int":
+      return edgeCaseOr(edgeCaseNumbers, random.int(1, 9999));
+    case "boolean":
+      return random.chance(0.5);
+    case "null":
+      return null;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Creates a faker. Each call continues the same sequence, so a test that
+ * makes the same calls with the same seed always gets the same data.
+ */
+export const createFaker = (options: FakeDataOptions = {}): Faker => {
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const random = createRandom(seed);
+  const resolved: ResolvedOptions = {
+    ...options,
+    optionalRate: options.optionalRate ?? 0.5,
+    unset: options.unset ?? "omit",
+    edgeCases: options.edgeCases ?? false,
+    recruiterDomain: options.recruiterDomain || "example.com",
+  };
+  const fromSchema = <T extends z.core.$ZodType>(
+    schema: T,
+    path: ReadonlyArray<string> = []
+  ) => fakeValue(schema, { random, options: resolved, path }) as z.input<T>;
+  return {
+    seed,
+    fromSchema: (schema) => fromSchema(schema),
+    company: () => fromSchema(atsCompanySchema, ["company"]),
+    recruiter: () => fromSchema(atsRecruiterSchema, ["recruiter"]),
+    job: () => fromSchema(atsJobSchema, ["job"]),
+    referee: () => fromSchema(atsRefereeSchema, ["referees"]),
+    candidate: () => fromSchema(atsCandidateSchema, ["candidate"]),
+    partnerEvent: () => fromSchema(atsPartnerEventSchema),
+    payload: () => fromSchema(atsPartnerEventPayloadSchema),
+  };
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtsConfigField } from "./ats-types";
+import {
+  evaluateCondition,
+  getFieldState,
+  getFieldStates,
+} from "./field-conditions";
+
+const values: Readonly<Record<string, string | boolean | string[]>> = {
+  choice: "yes",
+  enabled: true,
+  forms: ["form-1", "form-2"],
+};
+const getValue = (fieldId: string) => values[fieldId];
+
+describe("evaluateCondition", () => {
+  it("compares the value of the field", () => {
+    expect(
+      evaluateCondition({ field: "choice", equals: "yes" }, getValue)
+    ).toBe(true);
+    expect(
+      evaluateCondition({ "field": "choice", "not-equals": "yes" }, getValue)
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { "field": "choice", "one-of": ["no", "yes"] },
+        getValue
+      )
+    ).toBe(true);
+    expect(evaluateCondition({ field: "missing", equals: "" }, getValue)).toBe(
+      false
+    );
+  });
+
+  it("matches the selected options of a multi-select", () => {
+    expect(
+      evaluateCondition({ field: "forms", equals: "form-2" }, getValue)
+    ).toBe(true);
+    expect(
+      evaluateCondition({ "field": "forms", "not-equals": "form-1" }, getValue)
+    ).toBe(false);
+  });
+
+  it("combines conditions", () => {
+    const isEnabled = { field: "enabled", equals: true };
+    const isNo = { field: "choice", equals: "no" };
+    expect(evaluateCondition({ all: [isEnabled, isNo] }, getValue)).toBe(false);
+    expect(evaluateCondition({ any: [isEnabled, isNo] }, getValue)).toBe(true);
+    expect(evaluateCondition({ not: isNo }, getValue)).toBe(true);
+  });
+});
+
+describe("getFieldStates", () => {
+  const fields: ReadonlyArray<AtsConfigField> = [
+    { id: "external", type: "checkbox", label: "External" },
+    {
+      "id": "agency",
+      "type": "text",
+      "label": "Agency",
+      "value": "Acme",
+      "visible-when": { field: "external", equals: true },
+    },
+    {
+      "id": "agency-contact",
+      "type": "text",
+      "label": "Agency contact",
+      "enabled-when": { field: "agency", equals: "Acme" },
+    },
+    {
+      "id": "loop",
+      "type": "text",
+      "label": "Loop",
+      "visible-when": { field: "loop", equals: "" },
+    },
+  ];
+
+  it("treats an unset checkbox as false", () => {
+    const states = getFieldStates(fields, {});
+    expect(getFieldState(states, fields[0])).toEqual({
+      visible: true,
+      enabled: true,
+    });
+    expect(getFieldState(states, fields[1]).visible).toBe(false);
+  });
+
+  it("gives hidden fields no value in the conditions of other fields", () => {
+    expect(getFieldStates(fields, {}).get("agency-contact")?.enabled).toBe(
+      false
+    );
+    expect(
+      getFieldStates(fields, { external: true }).get("agency-contact")?.enabled
+    ).toBe(true);
+    expect(
+      getFieldStates(fields, { external: true, agency: "Other" }).get(
+        "agency-contact"
+      )?.enabled
+    ).toBe(false);
+  });
+
+  it("ignores conditions that depend on themselves", () => {
+    expect(getFieldStates(fields, {}).get("loop")).toEqual({
+      visible: true,
+      enabled: true,
+    });
+    const states = getFieldStates(
+      [
+        {
+          "id": "a",
+          "type": "text",
+          "label": "A",
+          "visible-when": { field: "b", equals: "x" },
+        },
+        {
+          "id": "b",
+          "type": "text",
+          "label": "B",
+          "enabled-when": { field: "a", equals: "x" },
+        },
+        {
+          "id": "c",
+          "type": "text",
+          "label": "C",
+          "visible-when": { field: "a", equals: "x" },
+        },
+      ],
+      { a: "x" }
+    );
+    expect(Object.fromEntries(states)).toEqual({
+      a: { visible: true, enabled: true },
+      b: { visible: true, enabled: true },
+      c: { visible: true, enabled: true },
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  AtsConfigCondition,
+  AtsConfigField,
+  AtsConfigFieldValue,
+  AtsConfigScalarValue,
+} from "./ats-types";
+import { AtsConfigEdits, getFieldValue } from "./config-values";
+
+export type AtsConfigFieldState = Readonly<{
+  /**
+   * False when the field's visible-when condition is not met
+   */
+  visible: boolean;
+  /**
+   * False when the field's enabled-when condition is not met
+   */
+  enabled: boolean;
+}>;
+
+const defaultState: AtsConfigFieldState = { visible: true, enabled: true };
+
+export const evaluateCondition = (
+  condition: AtsConfigCondition,
+  getValue: (fieldId: string) => AtsConfigFieldValue | undefined
+): boolean => {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluateCondition(c, getValue));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluateCondition(c, getValue));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, getValue);
+  }
+  const value = getValue(condition.field);
+  // A multi-select field matches the options that are selected
+  const matches = (expected: AtsConfigScalarValue) =>
+    Array.isArray(value)
+      ? value.some((selected) => selected === expected)
+      : value === expected;
+  if ("equals" in condition) {
+    return matches(condition.equals);
+  }
+  if ("not-equals" in condition) {
+    return !matches(condition["not-equals"]);
+  }
+  return condition["one-of"].some(matches);
+};
+
+/**
+ * Evaluates the visible-when and enabled-when conditions of all fields with
+ * the current values. A field that is hidden or disabled by its conditions
+ * has no value as far as the conditions of other fields are concerned, an
+ * unset checkbox counts as false and an unset multi-select as no options.
+ * Conditions that depend on themselves, directly or through other fields,
+ * are ignored, so the fields in such a loop are visible and enabled.
+ */
+export const getFieldStates = (
+  fields: ReadonlyArray<AtsConfigField>,
+  edits: AtsConfigEdits
+): ReadonlyMap<string, AtsConfigFieldState> => {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const states = new Map<string, AtsConfigFieldState>();
+  // In the order they are being evaluated, and the ones found in a loop
+  const evaluating = new Set<string>();
+  const looping = new Set<string>();
+
+  const getState = (field: AtsConfigField): AtsConfigFieldState => {
+    const known = states.get(field.id);
+    if (known) {
+      return known;
+    }
+    if (evaluating.has(field.id)) {
+      const ids = [...evaluating];
+      ids.slice(ids.indexOf(field.id)).forEach((id) => looping.add(id));
+      return defaultState;
+    }
+    evaluating.add(field.id);
+    const visibleWhen = field["visible-when"];
+    const enabledWhen = field["enabled-when"];
+    const evaluated = {
+      visible: !visibleWhen || evaluateCondition(visibleWhen, getValue),
+      enabled: !enabledWhen || evaluateCondition(enabledWhen, getValue),
+    };
+    const state = looping.has(field.id) ? defaultState : evaluated;
+    evaluating.delete(field.id);
+    states.set(field.id, state);
+    return state;
+  };
+
+  const getValue = (fieldId: string): AtsConfigFieldValue | undefined => {
+    const field = fieldsById.get(fieldId);
+    if (!field) {
+      return undefined;
+    }
+    const { visible, enabled } = getState(field);
+    if (!visible || !enabled) {
+      return undefined;
+    }
+    const value = getFieldValue(field, edits);
+    switch (field.type) {
+      case "checkbox":
+        return value === true;
+      case "multi-select":
+        return Array.isArray(value) ? value : [];
+    }
+    return value;
+  };
+
+  fields.forEach(getState);
+  return states;
+};
+
+export const getFieldState = (
+  states: ReadonlyMap<string, AtsConfigFieldState>,
+  field: AtsConfigField
+): AtsConfigFieldState => states.get(field.id) ?? defaultState;
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import {
+  RefappErrorCode,
+  RefappErrorIssue,
+  RefappErrorResponse,
+} from "./ats-types";
+
+/**
+ * A server side endpoint built on the Fetch API Request and Response classes,
+ * so it can be served from Node or used directly in place of fetch in tests
+ */
+export type RequestHandler = (request: Request) => Promise<Response>;
+
+export const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * A RefappErrorResponse, also used by the results sink
+ */
+export const errorResponse = (
+  status: number,
+  code: RefappErrorCode,
+  message: string,
+  issues?: ReadonlyArray<RefappErrorIssue>
+) => {
+  const body: RefappErrorResponse = issues
+    ? { code, message, issues: [...issues] }
+    : { code, message };
+  return jsonResponse(status, body);
+};
+
+/**
+ * A decoded path segment, or undefined when it has a malformed escape such as
+ * %E0, so it can be answered with an error response rather than throwing
+ */
+export const decodePathSegment = (segment: string): string | undefined => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (_) {
+    return undefined;
+  }
+};
+
+/**
+ * One line per issue, prefixed with the path to the offending value
+ */
+export const toIssues = (error: z.ZodError): ReadonlyArray<string> =>
+  error.issues.map(
+    (issue) => `${z.core.toDotPath(issue.path)}: ${issue.message}`
+  );
+
+/**
+ * The issues of a failed parse, with the path prefixed by where the parsed
+ * value is in the request
+ */
+export const toErrorIssues = (
+  error: z.ZodError,
+  prefix: ReadonlyArray<string | number> = []
+): ReadonlyArray<RefappErrorIssue> =>
+  error.issues.map((issue) => ({
+    path: [
+      ...prefix,
+      ...issue.path.map((key) => (typeof key === "number" ? key : String(key))),
+    ],
+    message: issue.message,
+    code: issue.code,
+  }));
+
+/**
+ * Like toIssues, a line prefixed with the path to the offending value
+ */
+export const formatErrorIssue = ({ path, message }: RefappErrorIssue) =>
+  path.length > 0
+    ? `${z.core.toDotPath(path as PropertyKey[])}: ${message}`
+    : message;
+
+/**
+ * Wraps a handler in the signature of fetch so it can replace the global
+ * fetch in tests
+ */
+export const toMockFetch =
+  (handler: RequestHandler): typeof fetch =>
+  (input, init) =>
+    handler(new Request(input, init));
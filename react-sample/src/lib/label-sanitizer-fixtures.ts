@@ -0,0 +1,161 @@
+import { LabelFormat } from "./label-sanitizer";
+
+/**
+ * Labels that try to run script, for integrators to check how their own
+ * rendering of label-html and label-markdown handles them. The expected
+ * output is what sanitizeLabel returns; any sanitiser should at least leave
+ * no script, event handler or javascript: link in its output.
+ */
+export type LabelXssFixture = Readonly<{
+  name: string;
+  format: LabelFormat;
+  input: string;
+  expected: string;
+}>;
+
+export const labelXssFixtures: ReadonlyArray<LabelXssFixture> = [
+  {
+    name: "external link",
+    format: "html",
+    input:
+      '<p>Use <a href="http://localhost:3000/project/ehQgddv35NCCP5tdR">this link</a>.</p>',
+    expected:
+      '<p>Use <a href="http://localhost:3000/project/ehQgddv35NCCP5tdR" target="_blank" rel="noopener">this link</a>.</p>',
+  },
+  {
+    name: "script element",
+    format: "html",
+    input: "<p>Hello<script>alert(1)</script></p>",
+    expected: "<p>Hello</p>",
+  },
+  {
+    name: "event handler",
+    format: "html",
+    input: '<p onclick="alert(1)">Hello</p>',
+    expected: "<p>Hello</p>",
+  },
+  {
+    name: "image with onerror",
+    format: "html",
+    input: "<img src=x onerror=alert(1)>Hello",
+    expected: "Hello",
+  },
+  {
+    name: "javascript link",
+    format: "html",
+    input: '<a href="javascript:alert(1)">Hello</a>',
+    expected: "<a>Hello</a>",
+  },
+  {
+    name: "javascript link with entities",
+    format: "html",
+    input: '<a href="&#106;ava&#x09;script&colon;alert(1)">Hello</a>',
+    expected: "<a>Hello</a>",
+  },
+  {
+    name: "javascript link with whitespace and case",
+    format: "html",
+    input: '<a href=" JaVaScRiPt:alert(1)">Hello</a>',
+    expected: "<a>Hello</a>",
+  },
+  {
+    name: "data link",
+    format: "html",
+    input:
+      '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">Hello</a>',
+    expected: "<a>Hello</a>",
+  },
+  {
+    name: "script in svg",
+    format: "html",
+    input: "<svg><script>alert(1)</script></svg>Hello",
+    expected: "Hello",
+  },
+  {
+    name: "iframe and style",
+    format: "html",
+    input:
+      '<iframe src="https://example.com"></iframe><p style="position:fixed">Hello</p>',
+    expected: "<p>Hello</p>",
+  },
+  {
+    name: "comment",
+    format: "html",
+    input: "<!--<script>alert(1)</script>-->Hello",
+    expected: "Hello",
+  },
+  {
+    name: "quote in attribute",
+    format: "html",
+    input: "<b title='\" onmouseover=\"alert(1)'>Hello</b>",
+    expected: '<b title="&quot; onmouseover=&quot;alert(1)">Hello</b>',
+  },
+  {
+    name: "slash instead of space",
+    format: "html",
+    input: '<a/href="javascript:alert(1)">Hello</a>',
+    expected: '&lt;a/href="javascript:alert(1)">Hello</a>',
+  },
+  {
+    name: "protocol-relative link",
+    format: "html",
+    input: '<a href="//example.com/page">Hello</a>',
+    expected:
+      '<a href="//example.com/page" target="_blank" rel="noopener">Hello</a>',
+  },
+  {
+    name: "markdown link",
+    format: "markdown",
+    input: "Use [this link](http://localhost:3000/project/ehQgddv35NCCP5tdR).",
+    expected:
+      "Use [this link](http://localhost:3000/project/ehQgddv35NCCP5tdR).",
+  },
+  {
+    name: "markdown javascript link",
+    format: "markdown",
+    input: "[Hello](javascript:alert(1))",
+    expected: "Hello",
+  },
+  {
+    name: "markdown javascript link with brackets in the text",
+    format: "markdown",
+    input: "[a [b] c](javascript:alert(1))",
+    expected: "a [b] c",
+  },
+  {
+    name: "markdown javascript link without a start",
+    format: "markdown",
+    input: "a](javascript:alert(1))",
+    expected: "a]",
+  },
+  {
+    name: "markdown javascript link around html",
+    format: "markdown",
+    input: "[<b>Hello</b>](java<!-- -->script:alert(1))",
+    expected: "<b>Hello</b>",
+  },
+  {
+    name: "markdown javascript autolink",
+    format: "markdown",
+    input: "<javascript:alert(1)>Hello",
+    expected: "Hello",
+  },
+  {
+    name: "markdown javascript link definition",
+    format: "markdown",
+    input: "[Hello][x]\n\n[x]: javascript:alert(1)",
+    expected: "[Hello][x]\n\n",
+  },
+  {
+    name: "markdown image",
+    format: "markdown",
+    input: "![Hello](https://example.com/tracker.png)",
+    expected: "Hello",
+  },
+  {
+    name: "markdown with html",
+    format: "markdown",
+    input: "**Hello** <img src=x onerror=alert(1)>",
+    expected: "**Hello** ",
+  },
+];
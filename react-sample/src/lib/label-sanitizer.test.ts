@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  labelLinkAttributes,
+  sanitizeLabel,
+  sanitizeLabelMarkdown,
+} from "./label-sanitizer";
+import { labelXssFixtures } from "./label-sanitizer-fixtures";
+
+describe("sanitizeLabel", () => {
+  it.each(labelXssFixtures.map((fixture) => [fixture.name, fixture]))(
+    "%s",
+    (_, { input, format, expected }) => {
+      expect(sanitizeLabel(input, format).text).toBe(expected);
+    }
+  );
+
+  it("reports what was removed", () => {
+    expect(
+      sanitizeLabel('<p onclick="x()">a<script>b</script></p>', "html").removed
+    ).toEqual(["onclick on <p>", "<script>"]);
+  });
+});
+
+describe("sanitizeLabelMarkdown", () => {
+  it("keeps safe links and removes unsafe ones nested in them", () => {
+    expect(
+      sanitizeLabelMarkdown(
+        "[a [b](javascript:alert(1)) c](https://example.com) [d](/e)"
+      )
+    ).toBe("[a b c](https://example.com) [d](/e)");
+  });
+
+  it("keeps escaped brackets as text", () => {
+    expect(sanitizeLabelMarkdown("[a \\] b](javascript:alert(1))")).toBe(
+      "a \\] b"
+    );
+  });
+});
+
+describe("labelLinkAttributes", () => {
+  it("opens other sites in a new tab", () => {
+    const external = { target: "_blank", rel: "noopener" };
+    expect(labelLinkAttributes("https://example.com")).toEqual(external);
+    expect(labelLinkAttributes("//example.com")).toEqual(external);
+    expect(labelLinkAttributes(" /\\example.com")).toEqual(external);
+    expect(labelLinkAttributes("/project/1")).toEqual({});
+    expect(labelLinkAttributes("mailto:a@example.com")).toEqual({});
+    expect(labelLinkAttributes(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Sanitises label-html and label-markdown before they are shown. Only the
+ * tags and attributes below are kept, links must use one of the allowed
+ * protocols and external links open in a new tab with rel="noopener".
+ * Elements that are not allowed are removed but their text is kept, except
+ * for elements like script and style whose content is removed with them.
+ * Works on strings only, so it can run in the browser and on a server.
+ */
+
+export const labelFormatValues = ["html", "markdown"] as const;
+export type LabelFormat = (typeof labelFormatValues)[number];
+
+export const allowedLabelTags = [
+  "a",
+  "b",
+  "blockquote",
+  "br",
+  "code",
+  "em",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "i",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "s",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "u",
+  "ul",
+] as const;
+
+/**
+ * Allowed attributes per tag, "*" for all tags
+ */
+export const allowedLabelAttributes: Readonly<
+  Record<string, ReadonlyArray<string>>
+> = {
+  "*": ["title", "lang", "dir"],
+  "a": ["href"],
+  "ol": ["start"],
+};
+
+export const allowedLinkProtocols = [
+  "http:",
+  "https:",
+  "mailto:",
+  "tel:",
+] as const;
+
+// Removed together with their content, which is not text to show
+const removedWithContent = [
+  "script",
+  "style",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "template",
+  "noscript",
+  "noembed",
+  "noframes",
+  "textarea",
+  "title",
+  "svg",
+  "math",
+  "select",
+  "xmp",
+];
+
+const voidTags = ["br", "hr"];
+
+export type SanitizedLabel = Readonly<{
+  text: string;
+  /**
+   * What was removed, e.g. `<script>` or `onclick on <p>`
+   */
+  removed: ReadonlyArray<string>;
+}>;
+
+const namedEntities: Readonly<Record<string, string>> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  colon: ":",
+  Tab: "\t",
+  NewLine: "\n",
+};
+
+// Out of range references are shown as the replacement character
+const fromCodePoint = (code: number) =>
+  code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd";
+
+/**
+ * Decodes numeric and the most common named character references. Numeric
+ * references are decoded without a semicolon too, like browsers do.
+ */
+export const decodeEntities = (text: string) =>
+  text.replace(
+    /&(?:#(\d+);?|#x([0-9a-f]+);?|(\w+);)/gi,
+    (match, decimal, hex, name) => {
+      if (decimal !== undefined) {
+        return fromCodePoint(Number(decimal));
+      }
+      if (hex !== undefined) {
+        return fromCodePoint(parseInt(hex, 16));
+      }
+      return namedEntities[name] ?? match;
+    }
+  );
+
+const escapeAttribute = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+/**
+ * The URL the way a browser reads it, i.e. ignoring control characters and
+ * whitespace
+ */
+const compactUrl = (url: string) =>
+  // eslint-disable-next-line no-control-regex
+  decodeEntities(url).replace(/[\u0000- \u007f]/g, "");
+
+/**
+ * The protocol of a URL, or undefined for a relative URL
+ */
+const urlProtocol = (url: string) => {
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(compactUrl(url));
+  return match ? `${match[1].toLowerCase()}:` : undefined;
+};
+
+export const isSafeLabelUrl = (url: string) => {
+  const protocol = urlProtocol(url);
+  return (
+    protocol === undefined ||
+    (allowedLinkProtocols as ReadonlyArray<string>).includes(protocol)
+  );
+};
+
+/**
+ * Links to other sites, including protocol-relative ones like
+ * //example.com, are opened in a new tab without access to this page.
+ * Browsers read a backslash like a slash in http(s) URLs.
+ */
+export const labelLinkAttributes = (
+  href: string | undefined
+): Readonly<{ target?: string; rel?: string }> => {
+  if (href === undefined) {
+    return {};
+  }
+  const protocol = urlProtocol(href);
+  return protocol === "http:" ||
+    protocol === "https:" ||
+    /^[/\\]{2}/.test(compactUrl(href))
+    ? { target: "_blank", rel: "noopener" }
+    : {};
+};
+
+const tagPattern =
+  /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/;
+const attributePattern =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const autolinkPattern =
+  /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>]+)>/;
+
+const sanitizeAttributes = (
+  tag: string,
+  source: string,
+  removed: string[]
+): string => {
+  const allowed = [
+    ...allowedLabelAttributes["*"],
+    ...(allowedLabelAttributes[tag] ?? []),
+  ];
+  let href: string | undefined;
+  let result = "";
+  for (const match of source.matchAll(attributePattern)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4];
+    if (!allowed.includes(name)) {
+      removed.push(`${name} on <${tag}>`);
+      continue;
+    }
+    if (value === undefined) {
+      result += ` ${name}`;
+      continue;
+    }
+    const decoded = decodeEntities(value);
+    if (name === "href") {
+      if (!isSafeLabelUrl(decoded)) {
+        removed.push(`${urlProtocol(decoded)} link on <${tag}>`);
+        continue;
+      }
+      href = decoded;
+    }
+    result += ` ${name}="${escapeAttribute(decoded)}"`;
+  }
+  const { target, rel } = labelLinkAttributes(href);
+  return target ? `${result} target="${target}" rel="${rel}"` : result;
+};
+
+// The end of a link, from the ] after its text. Link destinations may contain
+// balanced parentheses.
+const markdownLinkEndPattern =
+  /\]\(\s*(<[^>]*>|(?:[^\s()]|\([^\s()]*\))*)[^)]*\)/g;
+const markdownDefinitionPattern = /^ {0,3}\[[^\]]+\]:\s*(<[^>]*>|\S+).*$/gm;
+
+const stripAngleBrackets = (url: string) => url.replace(/^<(.*)>$/, "$1");
+
+/**
+ * The index of the [ that starts the link text ending at end. Link text may
+ * contain balanced brackets, e.g. [a [b] c](https://example.com).
+ */
+const findLinkTextStart = (text: string, end: number) => {
+  let depth = 0;
+  for (let index = end - 1; index >= 0; index--) {
+    if (text[index - 1] === "\\") {
+      continue;
+    }
+    if (text[index] === "]") {
+      depth++;
+    } else if (text[index] === "[") {
+      if (depth === 0) {
+        return index;
+      }
+      depth--;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Images are not allowed, like in label-html, and links with other
+ * protocols are replaced with their text. Without a [ to start the text, the
+ * destination of such a link is removed on its own.
+ */
+const sanitizeMarkdownLinks = (text: string, removed: string[]) => {
+  const pattern = new RegExp(markdownLinkEndPattern);
+  let result = text;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(result))) {
+    const end = match.index;
+    const target = stripAngleBrackets(match[1]);
+    const start = findLinkTextStart(result, end);
+    const image = start !== undefined && result[start - 1] === "!";
+    if (!image && isSafeLabelUrl(target)) {
+      continue;
+    }
+    removed.push(image ? "image" : `${urlProtocol(target)} link`);
+    const label = start === undefined ? "]" : result.slice(start + 1, end);
+    const from = start === undefined ? end : image ? start - 1 : start;
+    result =
+      result.slice(0, from) + label + result.slice(end + match[0].length);
+    pattern.lastIndex = from + label.length;
+  }
+  return result;
+};
+
+const sanitizeMarkdownText = (text: string, removed: string[]) =>
+  sanitizeMarkdownLinks(text, removed).replace(
+    markdownDefinitionPattern,
+    (match, url) => {
+      const target = stripAngleBrackets(url);
+      if (!isSafeLabelUrl(target)) {
+        removed.push(`${urlProtocol(target)} link`);
+        return "";
+      }
+      return match;
+    }
+  );
+
+export const sanitizeLabel = (
+  input: string,
+  format: LabelFormat
+): SanitizedLabel => {
+  const removed: string[] = [];
+  const markdown = format === "markdown";
+  let text = "";
+  let pending = "";
+  // The element whose content is being removed
+  let removing: string | undefined;
+  const flush = () => {
+    if (!removing) {
+      text += pending;
+    }
+    pending = "";
+  };
+  let index = 0;
+  while (index < input.length) {
+    const next = input.indexOf("<", index);
+    if (next === -1) {
+      pending += input.slice(index);
+      break;
+    }
+    pending += input.slice(index, next);
+    const rest = input.slice(next);
+    if (rest.startsWith("<!--")) {
+      const end = rest.indexOf("-->", 4);
+      index = end === -1 ? input.length : next + end + 3;
+      continue;
+    }
+    if (rest.startsWith("<!") || rest.startsWith("<?")) {
+      const end = rest.indexOf(">");
+      index = end === -1 ? input.length : next + end + 1;
+      continue;
+    }
+    const autolink = markdown && !removing ? autolinkPattern.exec(rest) : null;
+    if (autolink) {
+      if (isSafeLabelUrl(autolink[1]) || !autolink[1].includes(":")) {
+        pending += autolink[0];
+      } else {
+        removed.push(`${urlProtocol(autolink[1])} link`);
+      }
+      index = next + autolink[0].length;
+      continue;
+    }
+    const tag = tagPattern.exec(rest);
+    if (!tag) {
+      // Not a tag, so shown as text
+      pending += markdown ? "\\<" : "&lt;";
+      index = next + 1;
+      continue;
+    }
+    index = next + tag[0].length;
+    flush();
+    const closing = tag[1] === "/";
+    const name = tag[2].toLowerCase();
+    if (removing) {
+      if (closing && name === removing) {
+        removing = undefined;
+      }
+      continue;
+    }
+    if (removedWithContent.includes(name)) {
+      removed.push(`<${name}>`);
+      const selfClosing = tag[0].endsWith("/>");
+      if (!closing && !selfClosing) {
+        removing = name;
+      }
+      continue;
+    }
+    if (!(allowedLabelTags as ReadonlyArray<string>).includes(name)) {
+      if (!closing) {
+        removed.push(`<${name}>`);
+      }
+      continue;
+    }
+    if (closing) {
+      text += voidTags.includes(name) ? "" : `</${name}>`;
+    } else {
+      text += `<${name}${sanitizeAttributes(name, tag[3], removed)}>`;
+    }
+  }
+  flush();
+  // Links are checked once the tags are gone, since a link may span them
+  if (markdown) {
+    text = sanitizeMarkdownText(text, removed);
+  }
+  return { text, removed: Array.from(new Set(removed)) };
+};
+
+export const sanitizeLabelHtml = (html: string) =>
+  sanitizeLabel(html, "html").text;
+
+export const sanitizeLabelMarkdown = (markdown: string) =>
+  sanitizeLabel(markdown, "markdown").text;
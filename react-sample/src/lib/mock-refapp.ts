@@ -0,0 +1,624 @@
+import { z } from "zod";
+import {
+  AtsConfigField,
+  atsConfigOptionsQueryParams,
+  atsConfigQueryParams,
+  AtsPartnerEvent,
+  atsPartnerEventPayloadSchema,
+  AtsWebhookData,
+  atsWebhookDataSchema,
+  CandidateResults,
+  candidateResultsSchema,
+  HtmlConfigOption,
+  RefappAtsConfig,
+  RefappErrorIssue,
+} from "./ats-types";
+import { validateConfigValues } from "./config-validation";
+import { isLabelField } from "./config-values";
+import {
+  decodePathSegment,
+  errorResponse,
+  jsonResponse,
+  RequestHandler,
+  toErrorIssues,
+} from "./http-handlers";
+import { encryptCandidateResults, importAtsPublicKey } from "./pii-encryption";
+import { searchConfigOptions } from "./remote-options";
+import { assertIsNever } from "./typehelpers";
+import {
+  canonicalJson,
+  createSignatureVerifier,
+  signatureHeader,
+  signPayload,
+} from "./signatures";
+
+export const mockRefappScenarioValues = [
+  "cost-centers",
+  "project-templates",
+  "external-recruitment",
+] as const;
+export type MockRefappScenario = (typeof mockRefappScenarioValues)[number];
+
+type MockRefappScenarioFiles = Readonly<{
+  new: string;
+  /**
+   * Used once a partner event has been posted for the job
+   */
+  existing?: Readonly<{ en: string; sv: string }>;
+}>;
+
+/**
+ * File names in the config-examples directory used for each scenario
+ */
+export const mockRefappScenarios: Readonly<
+  Record<MockRefappScenario, MockRefappScenarioFiles>
+> = {
+  "cost-centers": {
+    new: "Cost Centers.json",
+    existing: {
+      en: "Cost Centers, existing project, English.json",
+      sv: "Cost Centers, existing project, Swedish.json",
+    },
+  },
+  "project-templates": {
+    new: "Project Templates.json",
+    existing: {
+      en: "Project Templates, existing project, English.json",
+      sv: "Project Templates, existing project, Swedish.json",
+    },
+  },
+  "external-recruitment": {
+    new: "External Recruitment, pre-filled values from default project template.json",
+  },
+};
+
+export type MockRefappOptions = Readonly<{
+  /**
+   * Expected in the Authorization header as a Bearer token
+   */
+  atsSecret: string;
+  /**
+   * Expected in the X-Provider-Key header and as company uuid in partner events
+   */
+  customerSecret: string;
+  /**
+   * Parsed contents of the config-examples files, keyed on file name
+   */
+  fixtures: Readonly<Record<string, RefappAtsConfig>>;
+  scenario?: MockRefappScenario;
+  /**
+   * Used to build the links returned in candidate results
+   */
+  baseUrl?: string;
+  configPath?: string;
+  partnerEventPath?: string;
+  /**
+   * Sent as Bearer token when calling the partner-result update-url
+   */
+  updateBearerToken?: string;
+  /**
+   * Reject partner events without a signature. Signatures that are present
+   * are always verified.
+   */
+  requireSignatures?: boolean;
+  /**
+   * Serve the options of the question form and project template selects
+   * from an options-source under `${configPath}/options/`, with a few hundred
+   * company forms added, instead of inlining them in the config
+   */
+  remoteOptions?: boolean;
+}>;
+
+type MockProject = {
+  readonly recruiters: Set<string>;
+  readonly results: Map<string, CandidateResults>;
+};
+
+// Only the id is needed to verify the signature before validating the payload
+const partnerEventIdSchema = z.object({
+  "partner-event": z.object({ id: z.string() }),
+});
+
+const isSwedish = (lang: string | undefined) =>
+  !!lang && /^(sv|swe)\b/i.test(lang);
+
+const randomId = () => Math.random().toString(36).slice(2, 12);
+
+const remoteOptionFieldIds: ReadonlyArray<string> = [
+  "form-sv",
+  "form-en",
+  "project-template-id",
+];
+
+const generateCompanyOptions = (fieldId: string): HtmlConfigOption[] =>
+  Array.from({ length: 240 }, (_, index) => ({
+    id: `${fieldId}-company-${index + 1}`,
+    label:
+      fieldId === "project-template-id"
+        ? `Company template ${index + 1}`
+        : `Company form ${index + 1}`,
+    group: "Company forms",
+    description: `${8 + (index % 15)} questions`,
+  }));
+
+const toNumber = (value: AtsWebhookData[string] | undefined) => {
+  const result = Number(value);
+  return Number.isFinite(result) && result > 0 ? result : undefined;
+};
+
+/**
+ * A stand-in for the Refapp /config, options-source and partner event
+ * endpoints.
+ * State (created projects and onboarded recruiters) is kept in memory.
+ */
+export const createMockRefapp = ({
+  atsSecret,
+  customerSecret,
+  fixtures,
+  scenario = "cost-centers",
+  baseUrl = "http://localhost:3000",
+  configPath = "/config",
+  partnerEventPath = "/partner-event",
+  updateBearerToken,
+  requireSignatures = false,
+  remoteOptions = false,
+}: MockRefappOptions): RequestHandler => {
+  // Retries are answered from handledEvents
+  const verifySignature = createSignatureVerifier(atsSecret, {
+    acceptRepeated: true,
+  });
+  const projects = new Map<string, MockProject>();
+  const recruiters = new Set<string>();
+  // The partner events handled, as canonical JSON, and their results by event
+  // id
+  const handledEvents = new Map<
+    string,
+    Readonly<{ payload: string; results: CandidateResults }>
+  >();
+
+  const getFixture = (fileName: string): RefappAtsConfig => {
+    const fixture = fixtures[fileName];
+    if (!fixture) {
+      throw new Error(`Missing config fixture "${fileName}"`);
+    }
+    return fixture;
+  };
+
+  const optionsPath = `${configPath}/options/`;
+
+  const toRemoteOptions = (field: AtsConfigField): AtsConfigField =>
+    field.type === "select" && remoteOptionFieldIds.includes(field.id)
+      ? {
+          ...field,
+          // Only the selected option is needed to show its label
+          "options": (field.options ?? []).filter(
+            (option) => option.id === field.value
+          ),
+          "options-source": { url: `${optionsPath}${field.id}` },
+        }
+      : field;
+
+  const getRemoteOptions = (fieldId: string) => {
+    const field = getFixture(
+      mockRefappScenarios[scenario].new
+    ).config.fields.find((field) => field.id === fieldId);
+    return field && remoteOptionFieldIds.includes(fieldId)
+      ? [...(field.options ?? []), ...generateCompanyOptions(fieldId)]
+      : undefined;
+  };
+
+  /**
+   * Like Refapp, reject option ids that are not in the config, so stale or
+   * mistyped ids are found, and values that break the validation metadata of
+   * their field. Keys that are not fields of the config are ignored. Issues
+   * have the path of the webhook-data in a partner event, or of the
+   * webhook_data query parameter of a refetch.
+   */
+  const validateWebhookData = (
+    webhookData: AtsWebhookData,
+    basePath: ReadonlyArray<string> = ["partner-event", "webhook-data"]
+  ): ReadonlyArray<RefappErrorIssue> => {
+    const { new: newFile, existing } = mockRefappScenarios[scenario];
+    const fields = [newFile, existing?.en, existing?.sv]
+      .filter((file): file is string => file !== undefined)
+      .flatMap((file) => getFixture(file).config.fields);
+    return Object.entries(webhookData).flatMap(
+      ([fieldId, value]): ReadonlyArray<RefappErrorIssue> => {
+        const field = fields.find((field) => field.id === fieldId);
+        const path = [...basePath, fieldId];
+        if (!field || isLabelField(field)) {
+          return [];
+        }
+        const optionIds = new Set(
+          fields
+            .filter((field) => field.id === fieldId)
+            .flatMap((field) => field.options ?? [])
+            .concat(
+              (remoteOptions ? getRemoteOptions(fieldId) : undefined) ?? []
+            )
+            .map((option) => option.id)
+        );
+        const unknownOptions = (ids: ReadonlyArray<string>) =>
+          ids
+            .filter((id) => !optionIds.has(id))
+            .map((id) => ({
+              path,
+              message: `Unknown option "${id}" for ${field.label}`,
+              code: "unknown-option",
+            }));
+        switch (field.type) {
+          case "select":
+          case "radio":
+            return Array.isArray(value) || typeof value === "boolean"
+              ? [
+                  {
+                    path,
+                    message: "Expected an option id",
+                    code: "invalid-type",
+                  },
+                ]
+              : unknownOptions([String(value)]);
+          case "multi-select":
+            return Array.isArray(value)
+              ? unknownOptions(value)
+              : [
+                  {
+                    path,
+                    message: "Expected an array of option ids",
+                    code: "invalid-type",
+                  },
+                ];
+          case "checkbox":
+            return typeof value === "boolean"
+              ? []
+              : [{ path, message: "Expected a boolean", code: "invalid-type" }];
+          case "number":
+          case "text":
+          case "textarea":
+          case "url":
+          case "date": {
+            const error = validateConfigValues([field], { [fieldId]: value })[
+              fieldId
+            ];
+            return error
+              ? [{ path, message: error.message, code: error.code }]
+              : [];
+          }
+        }
+        return assertIsNever(field);
+      }
+    );
+  };
+
+  const isAuthorized = (request: Request) =>
+    request.headers.get("Authorization") === `Bearer ${atsSecret}`;
+
+  const handleConfig = (url: URL): Response => {
+    const query = atsConfigQueryParams.safeParse(
+      Object.fromEntries(url.searchParams)
+    );
+    if (!query.success) {
+      return errorResponse(
+        400,
+        "invalid-query",
+        "Invalid query",
+        toErrorIssues(query.error)
+      );
+    }
+    const { job_id, lang, recruiter, webhook_data } = query.data;
+    if (webhook_data !== undefined) {
+      let webhookData: unknown;
+      try {
+        webhookData = JSON.parse(webhook_data);
+      } catch (_) {
+        webhookData = undefined;
+      }
+      const parsed = atsWebhookDataSchema.safeParse(webhookData);
+      if (!parsed.success) {
+        return errorResponse(400, "invalid-query", "Invalid query", [
+          {
+            path: ["webhook_data"],
+            message: "Expected a JSON encoded webhook-data object",
+          },
+        ]);
+      }
+      const issues = validateWebhookData(parsed.data, ["webhook_data"]);
+      if (issues.length > 0) {
+        return errorResponse(
+          400,
+          "invalid-webhook-data",
+          "Invalid webhook_data",
+          issues
+        );
+      }
+    }
+    const { new: newFile, existing } = mockRefappScenarios[scenario];
+    const project = job_id !== undefined ? projects.get(job_id) : undefined;
+    const fixture = getFixture(
+      project && existing
+        ? isSwedish(lang)
+          ? existing.sv
+          : existing.en
+        : newFile
+    );
+    const config = remoteOptions
+      ? { config: { fields: fixture.config.fields.map(toRemoteOptions) } }
+      : fixture;
+    if (recruiter === undefined || recruiters.has(recruiter)) {
+      return jsonResponse(200, config);
+    }
+    return jsonResponse(200, {
+      config: {
+        fields: [
+          {
+            "id": "recruiter-invite",
+            "type": "paragraph",
+            "label": isSwedish(lang)
+              ? `${recruiter} bjuds in till Refapp när den första referenstagningen startas.`
+              : `${recruiter} will be invited to Refapp when the first reference check is started.`,
+            "label-class": "info",
+          },
+          ...config.config.fields,
+        ],
+      },
+    });
+  };
+
+  const handleOptions = (url: URL): Response => {
+    const query = atsConfigOptionsQueryParams.safeParse(
+      Object.fromEntries(url.searchParams)
+    );
+    if (!query.success) {
+      return errorResponse(
+        400,
+        "invalid-query",
+        "Invalid query",
+        toErrorIssues(query.error)
+      );
+    }
+    const fieldId = decodePathSegment(url.pathname.slice(optionsPath.length));
+    const options =
+      remoteOptions && fieldId !== undefined
+        ? getRemoteOptions(fieldId)
+        : undefined;
+    if (!options) {
+      return errorResponse(
+        404,
+        "not-found",
+        `No options for ${fieldId ?? url.pathname}`
+      );
+    }
+    return jsonResponse(200, searchConfigOptions(options, query.data));
+  };
+
+  const createResults = (event: AtsPartnerEvent): CandidateResults => {
+    const { candidate } = event;
+    const webhookData = event["webhook-data"] ?? {};
+    const referees = candidate.referees ?? [];
+    const requested = toNumber(webhookData["num-referees-requested"]) ?? 2;
+    const requestsReferees =
+      webhookData["referee-requests-choice"] !== "disabled";
+    const total = Math.max(requested, referees.length);
+    const candidateKey = randomId();
+    const candidateUrl = `${baseUrl}/candidate/${candidateKey}`;
+    const candidateLink = {
+      url: candidateUrl,
+      description: `${candidate["first-name"]} ${candidate["last-name"]} in Refapp`,
+      type: "candidate-url" as const,
+    };
+    return candidateResultsSchema.parse({
+      type: "partner-results",
+      id: event["partner-result"].id || randomId(),
+      attributes: {
+        status: referees.length > 0 || requestsReferees ? "sent" : "pending",
+        summary:
+          referees.length > 0
+            ? `Reference check sent to ${referees.length} of ${total} referees`
+            : requestsReferees
+              ? `Waiting for the candidate to submit ${total} referees`
+              : "Add referees for the candidate in Refapp",
+        url: `${candidateUrl}/report`,
+        candidateLink,
+        candidateSubmissionPageLink: {
+          url: `${baseUrl}/reference-entry/${candidateKey}`,
+          description: "Submit referees",
+        },
+        assessment: {
+          type: "reference-check",
+          score: 0,
+          total,
+          remainingToSubmit: Math.max(total - referees.length, 0),
+          completed: 0,
+          declined: 0,
+          fraudWarnings: [],
+        },
+        attachments: [
+          candidateLink,
+          {
+            url: `${candidateUrl}/report`,
+            description: "Reference check report",
+            type: "report-url",
+          },
+        ],
+      },
+    });
+  };
+
+  /**
+   * Like Refapp, report the state of the candidate to the update-url, with PII
+   * encrypted when the job has an ats-public-key. Failures are only logged
+   * since they should not affect the partner event response.
+   */
+  const sendUpdate = (
+    updateUrl: string,
+    results: CandidateResults,
+    atsPublicKey: string | undefined
+  ) => {
+    (atsPublicKey
+      ? encryptCandidateResults(results, atsPublicKey)
+      : Promise.resolve(results)
+    )
+      .then(async (body) =>
+        fetch(updateUrl, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            [signatureHeader]: await signPayload({
+              secret: atsSecret,
+              id: body.id,
+              body,
+            }),
+            ...(updateBearerToken
+              ? { Authorization: `Bearer ${updateBearerToken}` }
+              : {}),
+          },
+          body: JSON.stringify(body),
+        })
+      )
+      .catch((e) => console.warn(`Update to ${updateUrl} failed`, e));
+  };
+
+  const handlePartnerEvent = async (request: Request): Promise<Response> => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (_) {
+      return errorResponse(
+        400,
+        "invalid-json",
+        "The request body is not valid JSON"
+      );
+    }
+    const eventId =
+      partnerEventIdSchema.safeParse(body).data?.["partner-event"].id;
+    const signature = request.headers.get(signatureHeader);
+    let repeated = false;
+    if (signature || requireSignatures) {
+      const verification = await verifySignature(signature, eventId, body);
+      if (verification.valid === false) {
+        return errorResponse(
+          401,
+          "invalid-signature",
+          `Invalid signature (${verification.reason})`
+        );
+      }
+      repeated = verification.repeated ?? false;
+    }
+    const payload = atsPartnerEventPayloadSchema.safeParse(body);
+    if (!payload.success) {
+      return errorResponse(
+        400,
+        "invalid-partner-event",
+        "Invalid partner event",
+        toErrorIssues(payload.error)
+      );
+    }
+    const event = payload.data["partner-event"];
+    const providerKey = request.headers.get("X-Provider-Key");
+    if (
+      event.company.uuid !== customerSecret ||
+      (providerKey !== null && providerKey !== customerSecret)
+    ) {
+      return errorResponse(403, "unknown-customer", "Unknown customer");
+    }
+    // Like Refapp, an event is only handled once so retries of a call whose
+    // response was lost get the same results. The same id with another
+    // payload is a new event.
+    const handled =
+      eventId === undefined ? undefined : handledEvents.get(eventId);
+    if (handled?.payload === canonicalJson(body)) {
+      return jsonResponse(200, handled.results);
+    }
+    if (repeated) {
+      return errorResponse(
+        401,
+        "invalid-signature",
+        "Invalid signature (replayed)"
+      );
+    }
+    const { job, recruiter } = event.candidate;
+    const atsPublicKey = job["ats-public-key"];
+    if (atsPublicKey) {
+      try {
+        await importAtsPublicKey(atsPublicKey);
+      } catch (_) {
+        return errorResponse(
+          400,
+          "invalid-partner-event",
+          "Invalid ats-public-key",
+          [
+            {
+              path: ["partner-event", "candidate", "job", "ats-public-key"],
+              message: "Expected a Base64url encoded PKCS#1 DER RSA key",
+            },
+          ]
+        );
+      }
+    }
+    const webhookDataIssues = validateWebhookData(event["webhook-data"] ?? {});
+    if (webhookDataIssues.length > 0) {
+      return errorResponse(
+        400,
+        "invalid-webhook-data",
+        "Invalid webhook-data",
+        webhookDataIssues
+      );
+    }
+    const jobId = String(job.id);
+    const project: MockProject = projects.get(jobId) ?? {
+      recruiters: new Set(),
+      results: new Map(),
+    };
+    projects.set(jobId, project);
+    for (const { email } of [recruiter, ...(job["recruiting-team"] ?? [])]) {
+      project.recruiters.add(email);
+      recruiters.add(email);
+    }
+    const results = createResults(event);
+    project.results.set(String(event.candidate.id), results);
+    if (eventId !== undefined) {
+      handledEvents.set(eventId, { payload: canonicalJson(body), results });
+    }
+    const updateUrl = event["partner-result"]["update-url"];
+    if (updateUrl) {
+      sendUpdate(updateUrl, results, atsPublicKey);
+    }
+    return jsonResponse(200, results);
+  };
+
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const isOptionsRequest = url.pathname.startsWith(optionsPath);
+    if (
+      url.pathname !== configPath &&
+      url.pathname !== partnerEventPath &&
+      !isOptionsRequest
+    ) {
+      return errorResponse(404, "not-found", `No route for ${url.pathname}`);
+    }
+    if (!isAuthorized(request)) {
+      return errorResponse(401, "unauthorized", "Invalid ATS secret");
+    }
+    if (url.pathname === configPath || isOptionsRequest) {
+      if (request.method !== "GET") {
+        return errorResponse(
+          405,
+          "method-not-allowed",
+          "Use GET for the config endpoint"
+        );
+      }
+      if (request.headers.get("X-Provider-Key") !== customerSecret) {
+        return errorResponse(403, "unknown-customer", "Unknown customer");
+      }
+      return isOptionsRequest ? handleOptions(url) : handleConfig(url);
+    }
+    if (request.method !== "POST") {
+      return errorResponse(
+        405,
+        "method-not-allowed",
+        "Use POST for partner events"
+      );
+    }
+    return handlePartnerEvent(request);
+  };
+};
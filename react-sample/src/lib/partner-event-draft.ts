@@ -0,0 +1,226 @@
+import * as _ from "lodash";
+import { z } from "zod";
+import {
+  atsPartnerEventPayloadSchema,
+  atsPartnerEventSchema,
+  AtsPartnerEventIncoming,
+  RefappErrorIssue,
+} from "./ats-types";
+import { createFaker, FakeDataOptions } from "./fake-data";
+
+/**
+ * The partner event edited in the sample app before it is submitted, with
+ * helpers for validating it and keeping named presets. webhook-data comes
+ * from the config UI when the event is submitted.
+ */
+
+export type AtsCandidateIncoming = AtsPartnerEventIncoming["candidate"];
+export type AtsRefereeIncoming = NonNullable<
+  AtsCandidateIncoming["referees"]
+>[number];
+export type AtsRecruiterIncoming = AtsCandidateIncoming["recruiter"];
+
+export const defaultRecruiterDomain = "example.com";
+
+/**
+ * A new candidate with a job, recruiter and referees from the fake data
+ * generator, with random ids so Refapp creates a new candidate and project
+ * for it. The event id, company uuid and webhook-data are filled in when the
+ * event is submitted.
+ */
+export const createPartnerEvent = (
+  recruiterDomain: string,
+  options: FakeDataOptions = {}
+): AtsPartnerEventIncoming => {
+  const event = createFaker({
+    optionalRate: 0.7,
+    ...options,
+    recruiterDomain: recruiterDomain || defaultRecruiterDomain,
+  }).partnerEvent();
+  return {
+    ..._.omit(event, ["id", "webhook-data"]),
+    "company": { uuid: "" },
+    "partner-result": { id: event["partner-result"].id },
+  };
+};
+
+export const createReferee = (): AtsRefereeIncoming => ({
+  "first-name": "",
+  "last-name": "",
+});
+
+export const createTeamMember = (): AtsRecruiterIncoming => ({ email: "" });
+
+/**
+ * Moves the recruiter and the recruiting team to another email domain
+ */
+export const withRecruiterDomain = (
+  event: AtsPartnerEventIncoming,
+  recruiterDomain: string
+): AtsPartnerEventIncoming => {
+  const domain = recruiterDomain || defaultRecruiterDomain;
+  const moveEmail = (recruiter: AtsRecruiterIncoming) => ({
+    ...recruiter,
+    email: recruiter.email.replace(/@.*$/, `@${domain}`),
+  });
+  const { candidate } = event;
+  const team = candidate.job["recruiting-team"];
+  return {
+    ...event,
+    candidate: {
+      ...candidate,
+      recruiter: moveEmail(candidate.recruiter),
+      job: {
+        ...candidate.job,
+        "recruiting-team": team ? team.map(moveEmail) : team,
+      },
+    },
+  };
+};
+
+export type PartnerEventPath = ReadonlyArray<string | number>;
+
+/**
+ * A copy of the event with the value at path replaced, or removed when the
+ * value is undefined
+ */
+export const updatePartnerEvent = (
+  event: AtsPartnerEventIncoming,
+  path: PartnerEventPath,
+  value: unknown
+): AtsPartnerEventIncoming => {
+  const result = _.cloneDeep(event);
+  if (value === undefined) {
+    _.unset(result, path);
+  } else {
+    _.set(result, path, value);
+  }
+  return result;
+};
+
+export type PartnerEventIssue = Readonly<{
+  /**
+   * Path in the partner event, without the "partner-event" of the payload
+   */
+  path: PartnerEventPath;
+  message: string;
+}>;
+
+export const toIssueKey = (path: PartnerEventPath) => path.join(".");
+
+/**
+ * Validates an event the way Refapp does, as the partner-event of a payload
+ */
+export const validatePartnerEvent = (
+  event: unknown
+): ReadonlyArray<PartnerEventIssue> => {
+  const result = atsPartnerEventPayloadSchema.safeParse({
+    "partner-event": event,
+  });
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => ({
+        path: issue.path
+          .slice(issue.path[0] === "partner-event" ? 1 : 0)
+          .map((key) => (typeof key === "number" ? key : String(key))),
+        message: issue.message,
+      }));
+};
+
+/**
+ * The issues of a Refapp error response that are about the partner event,
+ * apart from its webhook-data
+ */
+export const fromRefappErrorIssues = (
+  issues: ReadonlyArray<RefappErrorIssue>
+): ReadonlyArray<PartnerEventIssue> =>
+  issues
+    .filter(
+      ({ path }) => path[0] === "partner-event" && path[1] !== "webhook-data"
+    )
+    .map(({ path, message }) => ({ path: path.slice(1), message }));
+
+/**
+ * The issues as in a Refapp error response, with paths in the payload
+ */
+export const toRefappErrorIssues = (
+  issues: ReadonlyArray<PartnerEventIssue>
+): ReadonlyArray<RefappErrorIssue> =>
+  issues.map(({ path, message }) => ({
+    path: ["partner-event", ...path],
+    message,
+  }));
+
+export const formatPartnerEventIssue = ({ path, message }: PartnerEventIssue) =>
+  `${z.core.toDotPath(path as PropertyKey[])}: ${message}`;
+
+export type PartnerEventPreset = Readonly<{
+  name: string;
+  event: AtsPartnerEventIncoming;
+}>;
+
+const presetsStorageKey = "refapp-sample:partner-event-presets";
+
+const storedPresetsSchema = z.array(
+  z.object({ name: z.string(), event: z.unknown() })
+);
+
+/**
+ * The saved presets, sorted by name. Presets that are no longer valid
+ * partner events are left out.
+ */
+export const loadPartnerEventPresets = (
+  storage: Storage = localStorage
+): ReadonlyArray<PartnerEventPreset> => {
+  try {
+    const stored = storedPresetsSchema.safeParse(
+      JSON.parse(storage.getItem(presetsStorageKey) ?? "[]")
+    );
+    return stored.success
+      ? stored.data
+          .filter(({ event }) => atsPartnerEventSchema.safeParse(event).success)
+          .map(({ name, event }) => ({
+            name,
+            event: event as AtsPartnerEventIncoming,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      : [];
+  } catch (_) {
+    return [];
+  }
+};
+
+const storePresets = (
+  presets: ReadonlyArray<PartnerEventPreset>,
+  storage: Storage
+) => storage.setItem(presetsStorageKey, JSON.stringify(presets));
+
+/**
+ * Saves the event under the name, replacing any preset with the same name
+ */
+export const savePartnerEventPreset = (
+  preset: PartnerEventPreset,
+  storage: Storage = localStorage
+): ReadonlyArray<PartnerEventPreset> => {
+  storePresets(
+    [
+      ...loadPartnerEventPresets(storage).filter(
+        ({ name }) => name !== preset.name
+      ),
+      preset,
+    ],
+    storage
+  );
+  return loadPartnerEventPresets(storage);
+};
+
+export const deletePartnerEventPreset = (
+  name: string,
+  storage: Storage = localStorage
+): ReadonlyArray<PartnerEventPreset> => {
+  storePresets(
+    loadPartnerEventPresets(storage).filter((preset) => preset.name !== name),
+    storage
+  );
+  return loadPartnerEventPresets(storage);
+};
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment ./src/test-environment.js
+ */
+import { beforeAll, describe, expect, it } from "@jest/globals";
+import { createPublicKey } from "crypto";
+import {
+  AtsKeyPair,
+  decryptValue,
+  encryptValue,
+  exportAtsPrivateKey,
+  fromBase64Url,
+  generateAtsKeyPair,
+  importAtsPrivateKey,
+  importAtsPublicKey,
+  isEncryptedValue,
+  toBase64Url,
+} from "./pii-encryption";
+
+let keyPair: AtsKeyPair;
+
+beforeAll(async () => {
+  keyPair = await generateAtsKeyPair();
+});
+
+describe("toBase64Url", () => {
+  it("round trips without padding or url unsafe characters", () => {
+    const bytes = Uint8Array.of(251, 255, 191, 0, 1);
+    const encoded = toBase64Url(bytes);
+    expect(encoded).toBe("-_-_AAE");
+    expect(fromBase64Url(encoded)).toEqual(bytes);
+  });
+});
+
+describe("generateAtsKeyPair", () => {
+  it("gives the public key as PKCS#1 DER", () => {
+    const key = createPublicKey({
+      key: Buffer.from(fromBase64Url(keyPair.publicKey)),
+      format: "der",
+      type: "pkcs1",
+    });
+    expect(key.asymmetricKeyType).toBe("rsa");
+    expect(key.asymmetricKeyDetails).toEqual(
+      expect.objectContaining({ modulusLength: 2048 })
+    );
+  });
+
+  it("imports a PKCS#1 key from elsewhere", async () => {
+    const pkcs1 = createPublicKey({
+      key: Buffer.from(fromBase64Url(keyPair.publicKey)),
+      format: "der",
+      type: "pkcs1",
+    }).export({ format: "der", type: "pkcs1" });
+    const publicKey = await importAtsPublicKey(
+      toBase64Url(new Uint8Array(pkcs1))
+    );
+    const encrypted = await encryptValue("Ada", publicKey);
+    expect(await decryptValue(encrypted, keyPair.privateKey)).toBe("Ada");
+  });
+});
+
+describe("encryptValue", () => {
+  it("round trips with the private key", async () => {
+    const publicKey = await importAtsPublicKey(keyPair.publicKey);
+    const value = "Åsa Öberg <asa@example.com> 🎉";
+    const encrypted = await encryptValue(value, publicKey);
+    expect(isEncryptedValue(encrypted)).toBe(true);
+    expect(encrypted.split(".")).toHaveLength(4);
+    expect(encrypted).not.toContain("asa");
+    // A fresh key and iv every time
+    expect(await encryptValue(value, publicKey)).not.toBe(encrypted);
+    expect(await decryptValue(encrypted, keyPair.privateKey)).toBe(value);
+    const restored = await importAtsPrivateKey(
+      await exportAtsPrivateKey(keyPair.privateKey)
+    );
+    expect(await decryptValue(encrypted, restored)).toBe(value);
+  });
+});
+
+describe("decryptValue", () => {
+  it("leaves plain values unchanged", async () => {
+    expect(await decryptValue("Ada Lovelace", keyPair.privateKey)).toBe(
+      "Ada Lovelace"
+    );
+    expect(await decryptValue("", keyPair.privateKey)).toBe("");
+  });
+
+  it("rejects malformed and tampered values", async () => {
+    await expect(
+      decryptValue("rsa-oaep-256+a256gcm.abc.def", keyPair.privateKey)
+    ).rejects.toThrow("Invalid encrypted value");
+    const publicKey = await importAtsPublicKey(keyPair.publicKey);
+    const [prefix, encryptedKey, iv, ciphertext] = (
+      await encryptValue("Ada", publicKey)
+    ).split(".");
+    const tampered = toBase64Url(
+      fromBase64Url(ciphertext).map((byte, index) =>
+        index === 0 ? byte ^ 1 : byte
+      )
+    );
+    await expect(
+      decryptValue(
+        [prefix, encryptedKey, iv, tampered].join("."),
+        keyPair.privateKey
+      )
+    ).rejects.toThrow();
+  });
+});
+
+describe("importAtsPublicKey", () => {
+  it("rejects malformed keys", async () => {
+    await expect(importAtsPublicKey("")).rejects.toThrow();
+    await expect(importAtsPublicKey("not-a-key")).rejects.toThrow();
+    await expect(
+      importAtsPublicKey(keyPair.publicKey.slice(0, 100))
+    ).rejects.toThrow();
+    // A SubjectPublicKeyInfo rather than PKCS#1
+    const spki = createPublicKey({
+      key: Buffer.from(fromBase64Url(keyPair.publicKey)),
+      format: "der",
+      type: "pkcs1",
+    }).export({ format: "der", type: "spki" });
+    await expect(
+      importAtsPublicKey(toBase64Url(new Uint8Array(spki)))
+    ).rejects.toThrow();
+  });
+});
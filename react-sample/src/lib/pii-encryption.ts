@@ -0,0 +1,293 @@
+import { CandidateAttachment, CandidateResults } from "./ats-types";
+
+/**
+ * Helpers for the job "ats-public-key": a Base64url encoded PKCS#1 DER RSA
+ * public key that Refapp uses to encrypt PII inside update calls.
+ *
+ * RSA can only encrypt a few hundred bytes so each value is encrypted with a
+ * fresh AES-256-GCM key, which in turn is encrypted with RSA-OAEP (SHA-256).
+ * An encrypted value is a string of four dot separated parts:
+ *
+ * `rsa-oaep-256+a256gcm.<encrypted key>.<iv>.<ciphertext>`
+ *
+ * with each part Base64url encoded. Only uses Web Crypto so it runs both in
+ * the browser and in Node.
+ */
+
+const encryptedValuePrefix = "rsa-oaep-256+a256gcm.";
+
+const rsaAlgorithm = { name: "RSA-OAEP", hash: "SHA-256" } as const;
+
+export type AtsKeyPair = Readonly<{
+  /**
+   * The value to send as "ats-public-key" on the job
+   */
+  publicKey: string;
+  privateKey: CryptoKey;
+}>;
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const concatBytes = (...parts: ReadonlyArray<Uint8Array>) => {
+  const result = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const derLength = (length: number): Uint8Array => {
+  if (length < 0x80) {
+    return Uint8Array.of(length);
+  }
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) {
+    bytes.unshift(n % 256);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+};
+
+const derElement = (tag: number, content: Uint8Array) =>
+  concatBytes(Uint8Array.of(tag), derLength(content.length), content);
+
+/**
+ * Reads the DER element at offset, returning where its content starts and ends
+ */
+const readDerElement = (der: Uint8Array, offset: number, tag: number) => {
+  if (der[offset] !== tag) {
+    throw new Error(`Invalid key: expected DER tag ${tag} at ${offset}`);
+  }
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + der[start + i];
+    }
+    start += count;
+  }
+  return { start, end: start + length };
+};
+
+const derSequence = 0x30;
+const derBitString = 0x03;
+
+// DER AlgorithmIdentifier for rsaEncryption (OID 1.2.840.113549.1.1.1) with NULL parameters
+const rsaAlgorithmIdentifier = fromBase64Url("MA0GCSqGSIb3DQEBAQUA");
+
+/**
+ * Extracts the PKCS#1 RSAPublicKey from a SubjectPublicKeyInfo (the format
+ * Web Crypto exports)
+ */
+const spkiToPkcs1 = (spki: Uint8Array): Uint8Array => {
+  const outer = readDerElement(spki, 0, derSequence);
+  const algorithm = readDerElement(spki, outer.start, derSequence);
+  const bitString = readDerElement(spki, algorithm.end, derBitString);
+  // The first byte of the bit string is the number of unused bits
+  return spki.slice(bitString.start + 1, bitString.end);
+};
+
+const pkcs1ToSpki = (pkcs1: Uint8Array): Uint8Array<ArrayBuffer> =>
+  new Uint8Array(
+    derElement(
+      derSequence,
+      concatBytes(
+        rsaAlgorithmIdentifier,
+        derElement(derBitString, concatBytes(Uint8Array.of(0), pkcs1))
+      )
+    )
+  );
+
+export const generateAtsKeyPair = async (): Promise<AtsKeyPair> => {
+  const { publicKey, privateKey } = await crypto.subtle.generateKey(
+    {
+      ...rsaAlgorithm,
+      modulusLength: 2048,
+      publicExponent: Uint8Array.of(1, 0, 1),
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", publicKey));
+  return { publicKey: toBase64Url(spkiToPkcs1(spki)), privateKey };
+};
+
+// Async so a key that is not Base64url rejects rather than throws
+export const importAtsPublicKey = async (
+  publicKey: string
+): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    "spki",
+    pkcs1ToSpki(fromBase64Url(publicKey)),
+    rsaAlgorithm,
+    false,
+    ["encrypt"]
+  );
+
+/**
+ * Base64url encoded PKCS#8 DER, for storing the private key
+ */
+export const exportAtsPrivateKey = async (
+  privateKey: CryptoKey
+): Promise<string> =>
+  toBase64Url(
+    new Uint8Array(await crypto.subtle.exportKey("pkcs8", privateKey))
+  );
+
+export const importAtsPrivateKey = (privateKey: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    "pkcs8",
+    fromBase64Url(privateKey),
+    rsaAlgorithm,
+    true,
+    ["decrypt"]
+  );
+
+export const isEncryptedValue = (value: string) =>
+  value.startsWith(encryptedValuePrefix);
+
+export const encryptValue = async (
+  value: string,
+  publicKey: CryptoKey
+): Promise<string> => {
+  const aesKey = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt"]
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    aesKey,
+    new TextEncoder().encode(value)
+  );
+  const encryptedKey = await crypto.subtle.encrypt(
+    rsaAlgorithm,
+    publicKey,
+    await crypto.subtle.exportKey("raw", aesKey)
+  );
+  return (
+    encryptedValuePrefix +
+    [encryptedKey, iv, ciphertext]
+      .map((part) => toBase64Url(new Uint8Array(part)))
+      .join(".")
+  );
+};
+
+/**
+ * Values that are not encrypted are returned unchanged
+ */
+export const decryptValue = async (
+  value: string,
+  privateKey: CryptoKey
+): Promise<string> => {
+  if (!isEncryptedValue(value)) {
+    return value;
+  }
+  const parts = value.slice(encryptedValuePrefix.length).split(".");
+  if (parts.length !== 3) {
+    throw new Error("Invalid encrypted value");
+  }
+  const [encryptedKey, iv, ciphertext] = parts.map(fromBase64Url);
+  const aesKey = await crypto.subtle.importKey(
+    "raw",
+    await crypto.subtle.decrypt(rsaAlgorithm, privateKey, encryptedKey),
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+  return new TextDecoder().decode(
+    await crypto.subtle.decrypt({ name: "AES-GCM", iv }, aesKey, ciphertext)
+  );
+};
+
+type ValueTransform = (value: string) => Promise<string>;
+
+const transformAttachment = async <T extends CandidateAttachment | undefined>(
+  attachment: T,
+  transform: ValueTransform,
+  includeUrl: boolean
+): Promise<T> =>
+  attachment && {
+    ...attachment,
+    url: includeUrl ? await transform(attachment.url) : attachment.url,
+    description: await transform(attachment.description),
+  };
+
+/**
+ * The PII in an update is the summary and the attachment descriptions (which
+ * can contain the candidate's name) and the link for the candidate to submit
+ * referees (which gives access to the candidate's data)
+ */
+const transformPii = async (
+  results: CandidateResults,
+  transform: ValueTransform
+): Promise<CandidateResults> => {
+  const { attributes } = results;
+  return {
+    ...results,
+    attributes: {
+      ...attributes,
+      summary: await transform(attributes.summary),
+      candidateLink: await transformAttachment(
+        attributes.candidateLink,
+        transform,
+        false
+      ),
+      candidateSubmissionPageLink: await transformAttachment(
+        attributes.candidateSubmissionPageLink,
+        transform,
+        true
+      ),
+      attachments:
+        attributes.attachments &&
+        (await Promise.all(
+          attributes.attachments.map((attachment) =>
+            transformAttachment(attachment, transform, false)
+          )
+        )),
+    },
+  };
+};
+
+/**
+ * Encrypts the PII fields of an update with the job's ats-public-key
+ */
+export const encryptCandidateResults = async (
+  results: CandidateResults,
+  publicKey: CryptoKey | string
+): Promise<CandidateResults> => {
+  const key =
+    typeof publicKey === "string"
+      ? await importAtsPublicKey(publicKey)
+      : publicKey;
+  return transformPii(results, (value) => encryptValue(value, key));
+};
+
+export const decryptCandidateResults = (
+  results: CandidateResults,
+  privateKey: CryptoKey
+): Promise<CandidateResults> =>
+  transformPii(results, (value) => decryptValue(value, privateKey));
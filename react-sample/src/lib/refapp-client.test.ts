@@ -0,0 +1,233 @@
+/**
+ * @jest-environment ./src/test-environment.js
+ */
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import { RefappAtsConfig, refappAtsConfigSchema } from "./ats-types";
+import { errorResponse, toMockFetch } from "./http-handlers";
+import { createMockRefapp } from "./mock-refapp";
+import { createPartnerEvent } from "./partner-event-draft";
+import { createRefappClient, RefappRetry } from "./refapp-client";
+import { toWebhookDataErrors } from "./webhook-data";
+
+const atsSecret = "ats-secret";
+const customerSecret = "customer-secret";
+
+const configExamplesDir = path.resolve(__dirname, "../../../config-examples");
+
+const fixtures: Record<string, RefappAtsConfig> = Object.fromEntries(
+  fs
+    .readdirSync(configExamplesDir)
+    .filter((fileName) => fileName.endsWith(".json"))
+    .map((fileName) => [
+      fileName,
+      refappAtsConfigSchema.parse(
+        JSON.parse(
+          fs.readFileSync(path.join(configExamplesDir, fileName), "utf8")
+        )
+      ),
+    ])
+);
+
+const event = {
+  ...createPartnerEvent("example.com", { seed: 1 }),
+  company: { uuid: customerSecret },
+};
+
+/**
+ * The mock Refapp with signatures required, behind a fetch that answers
+ * with failed once for each call before calling through
+ */
+const createFlakyFetch = (failed: (response: Response) => Response) => {
+  const mockFetch = toMockFetch(
+    createMockRefapp({
+      atsSecret,
+      customerSecret,
+      fixtures,
+      requireSignatures: true,
+    })
+  );
+  const calls: string[] = [];
+  const flakyFetch: typeof fetch = async (input, init) => {
+    const response = await mockFetch(input, init);
+    calls.push(String(response.status));
+    return calls.length === 1 ? failed(response) : response;
+  };
+  return { flakyFetch, calls };
+};
+
+const createClient = (
+  fetchFunction: typeof fetch,
+  onRetry?: (retry: RefappRetry) => void
+) =>
+  createRefappClient({
+    atsSecret,
+    customerSecret,
+    configEndpoint: "http://localhost:4000/config",
+    postEndpoint: "http://localhost:4000/partner-event",
+    retryDelayMs: 1,
+    onRetry,
+    fetch: fetchFunction,
+  });
+
+describe("submitPartnerEvent", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("succeeds on a retry after a 5xx", async () => {
+    const retries: RefappRetry[] = [];
+    const { flakyFetch } = createFlakyFetch(() =>
+      errorResponse(503, "internal-error", "Unavailable")
+    );
+    const result = await createClient(flakyFetch, (retry) =>
+      retries.push(retry)
+    ).submitPartnerEvent({ ...event, id: "event-1" });
+    expect(result.ok).toBe(true);
+    expect(result.attempts).toBe(2);
+    expect(retries).toEqual([
+      {
+        attempt: 1,
+        delayMs: 1,
+        error: expect.objectContaining({ kind: "server", status: 503 }),
+      },
+    ]);
+  });
+
+  it("gets the first results when a retry with the same signature reaches Refapp again", async () => {
+    // The signature timestamp is in whole seconds, so a quick retry is signed
+    // the same way
+    jest.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    const { flakyFetch, calls } = createFlakyFetch(() =>
+      errorResponse(502, "internal-error", "The response was lost")
+    );
+    const first = await createClient(flakyFetch).submitPartnerEvent({
+      ...event,
+      id: "event-2",
+    });
+    expect(calls).toEqual(["200", "200"]);
+    expect(first.ok).toBe(true);
+    const again = await createClient(flakyFetch).submitPartnerEvent({
+      ...event,
+      id: "event-2",
+    });
+    expect(again).toEqual({ ...first, attempts: 1 });
+  });
+
+  it("only answers a repost of an event id from the first results when the payload is the same", async () => {
+    const { flakyFetch } = createFlakyFetch((response) => response);
+    // A new client each time, since a client only submits an event id once
+    const submit = (partnerEvent: typeof event) =>
+      createClient(flakyFetch).submitPartnerEvent(partnerEvent);
+    const first = await submit({ ...event, id: "event-3" });
+    expect(first.ok).toBe(true);
+    expect(await submit({ ...event, id: "event-3" })).toEqual(first);
+    const otherCustomer = await submit({
+      ...event,
+      id: "event-3",
+      company: { uuid: "other" },
+    });
+    expect(otherCustomer.ok === false && otherCustomer.error.kind).toBe("auth");
+    const changed = await submit({
+      ...event,
+      id: "event-3",
+      candidate: { ...event.candidate, id: "other-candidate" },
+    });
+    expect(changed.ok).toBe(true);
+    expect(changed.ok && changed.data).not.toEqual(first.ok && first.data);
+  });
+
+  it("gives up after the retries", async () => {
+    const fetchFunction = jest.fn(async () =>
+      errorResponse(500, "internal-error", "Failed")
+    );
+    const result = await createClient(fetchFunction).submitPartnerEvent(event);
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({ kind: "server", status: 500 }),
+      attempts: 4,
+    });
+    expect(fetchFunction).toHaveBeenCalledTimes(4);
+  });
+
+  it("does not retry a rejected event", async () => {
+    const { flakyFetch, calls } = createFlakyFetch((response) => response);
+    const result = await createClient(flakyFetch).submitPartnerEvent({
+      ...event,
+      company: { uuid: "other" },
+    });
+    expect(result.ok === false && result.error.kind).toBe("auth");
+    expect(calls).toEqual(["403"]);
+  });
+});
+
+describe("fetchConfig", () => {
+  it("returns the issues with the webhook_data of a refetch", async () => {
+    const { flakyFetch } = createFlakyFetch((response) => response);
+    const result = await createClient(flakyFetch).fetchConfig({
+      "form-en": "unknown",
+      "hide-project-name": true,
+    });
+    expect(result.ok).toBe(false);
+    expect(
+      result.ok === false &&
+        result.error.kind === "validation" &&
+        toWebhookDataErrors(result.error.issues)
+    ).toEqual({ "form-en": 'Unknown option "unknown" for English Questions' });
+  });
+});
+
+describe("mock Refapp options-source", () => {
+  it("answers a malformed escape in the field id with a 404", async () => {
+    const mockFetch = toMockFetch(
+      createMockRefapp({
+        atsSecret,
+        customerSecret,
+        fixtures,
+        remoteOptions: true,
+      })
+    );
+    const response = await mockFetch(
+      "http://localhost:4000/config/options/%E0",
+      {
+        headers: {
+          "Authorization": `Bearer ${atsSecret}`,
+          "X-Provider-Key": customerSecret,
+        },
+      }
+    );
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("replayRequest", () => {
+  it("fails without sending when the body is not a partner event", async () => {
+    const fetchFunction = jest.fn(async () => new Response("{}"));
+    const client = createClient(fetchFunction);
+    const url = "http://localhost:4000/partner-event";
+    const notJson = await client.replayRequest({
+      method: "POST",
+      url,
+      body: "{",
+    });
+    expect(notJson.ok === false && notJson.error).toEqual(
+      expect.objectContaining({
+        kind: "validation",
+        message: expect.stringMatching(/^The body is not valid JSON: /),
+      })
+    );
+    const noEvent = await client.replayRequest({
+      method: "POST",
+      url,
+      body: "{}",
+    });
+    expect(noEvent.ok === false && noEvent.error).toEqual(
+      expect.objectContaining({
+        kind: "validation",
+        message: "The body has no partner-event",
+      })
+    );
+    expect(fetchFunction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,676 @@
+import { z } from "zod";
+import {
+  AtsConfigField,
+  AtsConfigOptionsPage,
+  atsConfigOptionsPageSchema,
+  AtsPartnerEventIncoming,
+  AtsPartnerEventPayloadIncoming,
+  AtsWebhookData,
+  RefappAtsConfig,
+  refappAtsConfigSchema,
+  RefappErrorIssue,
+  refappErrorResponseSchema,
+} from "./ats-types";
+import { toErrorIssues } from "./http-handlers";
+import { AtsConfigOptionsQuery, toOptionsUrl } from "./remote-options";
+import { signatureHeader, signPayload } from "./signatures";
+
+/**
+ * Client for the Refapp endpoints called by an ATS: the config endpoint, its
+ * remote options and partner event POSTs. Each attempt times out, 429 and 5xx
+ * responses and network failures are retried with exponential backoff, and
+ * calls never throw: they resolve to the data or to a RefappClientError.
+ */
+
+export const refappClientErrorKindValues = [
+  "auth",
+  "validation",
+  "transport",
+  "server",
+] as const;
+export type RefappClientErrorKind =
+  (typeof refappClientErrorKindValues)[number];
+
+export const refappTransportFailureValues = [
+  "network",
+  "timeout",
+  "aborted",
+] as const;
+export type RefappTransportFailure =
+  (typeof refappTransportFailureValues)[number];
+
+export type RefappClientError =
+  /**
+   * The ATS secret or the customer secret was rejected (401 or 403)
+   */
+  | Readonly<{ kind: "auth"; status: number; code?: string; message: string }>
+  /**
+   * Refapp rejected the request (other 4xx), or the response does not match
+   * its schema. Issues from Refapp have paths in the request, and issues with
+   * the response have paths in the response.
+   */
+  | Readonly<{
+      kind: "validation";
+      status?: number;
+      code?: string;
+      message: string;
+      issues: ReadonlyArray<RefappErrorIssue>;
+    }>
+  /**
+   * No response, because of a network failure, a timeout or the caller
+   * aborting
+   */
+  | Readonly<{
+      kind: "transport";
+      reason: RefappTransportFailure;
+      message: string;
+    }>
+  /**
+   * 429 and 5xx responses still failing after the retries, and any other
+   * unexpected status
+   */
+  | Readonly<{
+      kind: "server";
+      status: number;
+      code?: string;
+      message: string;
+      retryAfterMs?: number;
+    }>;
+
+export type RefappResult<T> =
+  | Readonly<{ ok: true; data: T; attempts: number }>
+  | Readonly<{ ok: false; error: RefappClientError; attempts: number }>;
+
+export type RefappRetry = Readonly<{
+  /**
+   * The attempt that failed, starting at 1
+   */
+  attempt: number;
+  delayMs: number;
+  error: RefappClientError;
+}>;
+
+/**
+ * Stand-ins for the secrets in recorded exchanges
+ */
+export const secretPlaceholders = {
+  atsSecret: "[ats-secret]",
+  customerSecret: "[customer-secret]",
+} as const;
+
+/**
+ * One attempt of a call as sent and received, with the secrets replaced by
+ * secretPlaceholders wherever they appear
+ */
+export type RefappExchange = Readonly<{
+  method: string;
+  url: string;
+  requestHeaders: Readonly<Record<string, string>>;
+  requestBody?: string;
+  /**
+   * Undefined when there was no response
+   */
+  status?: number;
+  responseHeaders: Readonly<Record<string, string>>;
+  responseBody?: string;
+  /**
+   * ISO date
+   */
+  startedAt: string;
+  durationMs: number;
+  /**
+   * Starting at 1
+   */
+  attempt: number;
+  /**
+   * What the client made of the response, when it failed
+   */
+  error?: RefappClientError;
+}>;
+
+/**
+ * A recorded request to send again, possibly edited
+ */
+export type RefappReplayRequest = Readonly<{
+  method: "GET" | "POST";
+  url: string;
+  body?: string;
+}>;
+
+export type RefappClientOptions = Readonly<{
+  atsSecret: string;
+  customerSecret: string;
+  /**
+   * Also the base of remote options urls
+   */
+  configEndpoint?: string;
+  postEndpoint?: string;
+  /**
+   * For each attempt, 10 seconds by default
+   */
+  timeoutMs?: number;
+  /**
+   * Retries after the first attempt, 3 by default
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first retry, doubled for each retry. 500 ms by default.
+   */
+  retryDelayMs?: number;
+  /**
+   * Calls give up rather than wait longer than this for a retry, e.g. when
+   * Retry-After is far ahead. 30 seconds by default.
+   */
+  maxRetryDelayMs?: number;
+  /**
+   * Called before waiting for a retry
+   */
+  onRetry?: (retry: RefappRetry) => void;
+  /**
+   * Called after each attempt, e.g. to keep a request history
+   */
+  onExchange?: (exchange: RefappExchange) => void;
+  /**
+   * The global fetch by default, or e.g. toMockFetch(createMockRefapp(...))
+   * in tests
+   */
+  fetch?: typeof fetch;
+}>;
+
+export type RefappClient = Readonly<{
+  fetchConfig: (
+    webhookData?: AtsWebhookData,
+    signal?: AbortSignal
+  ) => Promise<RefappResult<RefappAtsConfig>>;
+  fetchOptions: (
+    field: AtsConfigField,
+    query: AtsConfigOptionsQuery,
+    signal?: AbortSignal
+  ) => Promise<RefappResult<AtsConfigOptionsPage>>;
+  /**
+   * Signs and posts the event, with a new id if it has none. All attempts
+   * send the same id, so Refapp can tell a retry from a new event. While a
+   * submit is in flight or after it has succeeded, submitting an event with
+   * the same id returns that submit instead of posting again.
+   */
+  submitPartnerEvent: (
+    event: AtsPartnerEventIncoming,
+    signal?: AbortSignal
+  ) => Promise<RefappResult<unknown>>;
+  /**
+   * Sends a recorded request again with the secrets in place of their
+   * placeholders, new credentials and, for a POST, a new signature for the
+   * partner-event id in the body. Unlike submitPartnerEvent it always posts.
+   * A POST body that is not JSON with a partner-event is a validation error
+   * and nothing is sent.
+   */
+  replayRequest: (
+    request: RefappReplayRequest,
+    signal?: AbortSignal
+  ) => Promise<RefappResult<unknown>>;
+}>;
+
+/**
+ * Short description of the error kind, for headings
+ */
+export const refappClientErrorTitles: Readonly<
+  Record<RefappClientErrorKind, string>
+> = {
+  auth: "Not authorised",
+  validation: "Invalid request or response",
+  transport: "No response",
+  server: "Refapp failed",
+};
+
+export const formatRefappClientError = (error: RefappClientError) =>
+  `${refappClientErrorTitles[error.kind]}${
+    "status" in error && error.status ? ` (${error.status})` : ""
+  }: ${error.message}`;
+
+/**
+ * Adds the current field values as the webhook_data query parameter when
+ * refetching the config after a field with refetch set has changed
+ */
+const toConfigUrl = (configEndpoint: string, webhookData?: AtsWebhookData) => {
+  if (!webhookData) {
+    return configEndpoint;
+  }
+  const url = new URL(configEndpoint);
+  url.searchParams.set("webhook_data", JSON.stringify(webhookData));
+  return url.toString();
+};
+
+// Older responses only have a message
+const messageBodySchema = z.object({ message: z.string() });
+
+/**
+ * Retry-After in milliseconds, from either delay-seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const toResponseError = async (
+  response: Response
+): Promise<RefappClientError> => {
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (_) {
+    json = undefined;
+  }
+  const body = refappErrorResponseSchema.safeParse(json).data;
+  const { status } = response;
+  const code = body?.code;
+  const message =
+    body?.message ||
+    messageBodySchema.safeParse(json).data?.message ||
+    response.statusText ||
+    "The response has no message";
+  if (status === 401 || status === 403) {
+    return { kind: "auth", status, code, message };
+  }
+  if (status === 429 || status >= 500) {
+    return {
+      kind: "server",
+      status,
+      code,
+      message,
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+    };
+  }
+  if (status >= 400) {
+    return {
+      kind: "validation",
+      status,
+      code,
+      message,
+      issues: body?.issues ?? [],
+    };
+  }
+  return { kind: "server", status, code, message };
+};
+
+const isRetryable = (error: RefappClientError) =>
+  (error.kind === "transport" && error.reason !== "aborted") ||
+  (error.kind === "server" && (error.status === 429 || error.status >= 500));
+
+/**
+ * Resolves to false if aborted before the delay has passed
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve(false);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort);
+  });
+
+type Outcome<T> =
+  | Readonly<{ ok: true; data: T }>
+  | Readonly<{ ok: false; error: RefappClientError }>;
+
+const toHeaderRecord = (headers: HeadersInit | Headers | undefined) => {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+};
+
+const replayBodySchema = z.object({
+  "partner-event": z.object({ id: z.string().optional() }),
+});
+
+const abortedError: RefappClientError = {
+  kind: "transport",
+  reason: "aborted",
+  message: "The request was cancelled",
+};
+
+export const createRefappClient = ({
+  atsSecret,
+  customerSecret,
+  configEndpoint,
+  postEndpoint,
+  timeoutMs = 10000,
+  maxRetries = 3,
+  retryDelayMs = 500,
+  maxRetryDelayMs = 30000,
+  onRetry,
+  onExchange,
+  fetch: fetchFunction = (input, init) => fetch(input, init),
+}: RefappClientOptions): RefappClient => {
+  const secrets = [
+    [atsSecret, secretPlaceholders.atsSecret],
+    [customerSecret, secretPlaceholders.customerSecret],
+  ] as const;
+
+  const redact = (text: string) =>
+    secrets.reduce(
+      (redacted, [secret, placeholder]) =>
+        secret ? redacted.split(secret).join(placeholder) : redacted,
+      text
+    );
+
+  const unredact = (text: string) =>
+    secrets.reduce(
+      (unredacted, [secret, placeholder]) =>
+        unredacted.split(placeholder).join(secret),
+      text
+    );
+
+  const redactRecord = (record: Readonly<Record<string, string>>) =>
+    Object.fromEntries(
+      Object.entries(record).map(([name, value]) => [name, redact(value)])
+    );
+
+  const sendOnce = async <T>(
+    url: string,
+    init: RequestInit,
+    parse: (json: unknown) => Outcome<T>,
+    signal?: AbortSignal,
+    onResponse?: (response: Response) => void
+  ): Promise<Outcome<T>> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener("abort", abort);
+    try {
+      const response = await fetchFunction(url, {
+        ...init,
+        signal: controller.signal,
+      });
+      onResponse?.(response);
+      if (!response.ok) {
+        return { ok: false, error: await toResponseError(response) };
+      }
+      let json: unknown;
+      try {
+        json = await response.json();
+      } catch (_) {
+        if (controller.signal.aborted) {
+          throw new Error("Aborted while reading the response");
+        }
+        return {
+          ok: false,
+          error: {
+            kind: "validation",
+            status: response.status,
+            message: "The response is not valid JSON",
+            issues: [],
+          },
+        };
+      }
+      return parse(json);
+    } catch (e) {
+      return {
+        ok: false,
+        error: timedOut
+          ? {
+              kind: "transport",
+              reason: "timeout",
+              message: `No response within ${timeoutMs / 1000} s`,
+            }
+          : signal?.aborted
+            ? abortedError
+            : {
+                kind: "transport",
+                reason: "network",
+                message: e instanceof Error ? e.message : String(e),
+              },
+      };
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", abort);
+    }
+  };
+
+  /**
+   * The request is created again for each attempt, so signatures get a
+   * fresh timestamp. Failing to create it, e.g. from an invalid endpoint, is
+   * a validation error.
+   */
+  const send = async <T>(
+    createRequest: () => Promise<Readonly<{ url: string; init: RequestInit }>>,
+    parse: (json: unknown) => Outcome<T>,
+    signal?: AbortSignal,
+    attempt: number = 1
+  ): Promise<RefappResult<T>> => {
+    let request: Readonly<{ url: string; init: RequestInit }>;
+    try {
+      request = await createRequest();
+    } catch (e) {
+      return {
+        ok: false,
+        error: {
+          kind: "validation",
+          message: e instanceof Error ? e.message : String(e),
+          issues: [],
+        },
+        attempts: attempt,
+      };
+    }
+    const startedAt = new Date();
+    let recorded:
+      Promise<Readonly<{ response: Response; body?: string }>> | undefined;
+    const outcome = await sendOnce(
+      request.url,
+      request.init,
+      parse,
+      signal,
+      onExchange &&
+        ((response) => {
+          const copy = response.clone();
+          recorded = copy.text().then(
+            (body) => ({ response: copy, body }),
+            () => ({ response: copy })
+          );
+        })
+    );
+    if (onExchange) {
+      const received = await recorded;
+      const { body } = request.init;
+      onExchange({
+        method: request.init.method ?? "GET",
+        url: redact(request.url),
+        requestHeaders: redactRecord(toHeaderRecord(request.init.headers)),
+        requestBody: typeof body === "string" ? redact(body) : undefined,
+        status: received?.response.status,
+        responseHeaders: redactRecord(
+          toHeaderRecord(received?.response.headers)
+        ),
+        responseBody:
+          received?.body === undefined ? undefined : redact(received.body),
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        attempt,
+        error: outcome.ok === false ? outcome.error : undefined,
+      });
+    }
+    if (outcome.ok === false && isRetryable(outcome.error)) {
+      const { error } = outcome;
+      const backoffMs = retryDelayMs * 2 ** (attempt - 1);
+      const delayMs =
+        error.kind === "server" && error.retryAfterMs !== undefined
+          ? Math.max(error.retryAfterMs, backoffMs)
+          : backoffMs;
+      if (attempt <= maxRetries && delayMs <= maxRetryDelayMs) {
+        onRetry?.({ attempt, delayMs, error });
+        return (await sleep(delayMs, signal))
+          ? send(createRequest, parse, signal, attempt + 1)
+          : { ok: false, error: abortedError, attempts: attempt };
+      }
+    }
+    return { ...outcome, attempts: attempt };
+  };
+
+  const requireEndpoint = (endpoint: string | undefined, name: string) => {
+    if (!endpoint) {
+      throw new Error(`The client was created without ${name}`);
+    }
+    return endpoint;
+  };
+
+  const getRequest = async (url: string) => ({
+    url,
+    init: {
+      headers: {
+        "Authorization": `Bearer ${atsSecret}`,
+        "X-Provider-Key": customerSecret,
+      },
+    },
+  });
+
+  const postRequest = async (url: string, id: string, payload: unknown) => ({
+    url,
+    init: {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${atsSecret}`,
+        "Content-Type": "application/json",
+        [signatureHeader]: await signPayload({
+          secret: atsSecret,
+          id,
+          body: payload,
+        }),
+      },
+      body: JSON.stringify(payload),
+    },
+  });
+
+  const parseWith =
+    <T>(schema: z.ZodType<T>, message: string) =>
+    (json: unknown): Outcome<T> => {
+      const result = schema.safeParse(json);
+      return result.success
+        ? { ok: true, data: result.data }
+        : {
+            ok: false,
+            error: {
+              kind: "validation",
+              message,
+              issues: toErrorIssues(result.error),
+            },
+          };
+    };
+
+  const acceptAny = (json: unknown): Outcome<unknown> => ({
+    ok: true,
+    data: json,
+  });
+
+  const submissions = new Map<string, Promise<RefappResult<unknown>>>();
+
+  return {
+    fetchConfig: (webhookData, signal) =>
+      send(
+        () =>
+          getRequest(
+            toConfigUrl(
+              requireEndpoint(configEndpoint, "configEndpoint"),
+              webhookData
+            )
+          ),
+        parseWith(refappAtsConfigSchema, "The config payload is invalid"),
+        signal
+      ),
+    fetchOptions: (field, query, signal) =>
+      send(
+        () =>
+          getRequest(
+            toOptionsUrl(
+              requireEndpoint(configEndpoint, "configEndpoint"),
+              field["options-source"],
+              query
+            )
+          ),
+        parseWith(
+          atsConfigOptionsPageSchema,
+          `The options for ${field.id} are invalid`
+        ),
+        signal
+      ),
+    submitPartnerEvent: (event, signal) => {
+      const id = event.id ?? crypto.randomUUID();
+      const existing = submissions.get(id);
+      if (existing) {
+        return existing;
+      }
+      const payload: AtsPartnerEventPayloadIncoming = {
+        "partner-event": { ...event, id },
+      };
+      const submission = send(
+        () =>
+          postRequest(
+            requireEndpoint(postEndpoint, "postEndpoint"),
+            id,
+            payload
+          ),
+        acceptAny,
+        signal
+      ).then((result) => {
+        // Failed submits can be made again with the same id
+        if (result.ok === false) {
+          submissions.delete(id);
+        }
+        return result;
+      });
+      submissions.set(id, submission);
+      return submission;
+    },
+    replayRequest: ({ method, url, body }, signal) =>
+      send(
+        async () => {
+          if (method === "GET") {
+            return getRequest(unredact(url));
+          }
+          let payload: unknown;
+          try {
+            payload = JSON.parse(unredact(body ?? ""));
+          } catch (e) {
+            throw new Error(
+              `The body is not valid JSON: ${
+                e instanceof Error ? e.message : String(e)
+              }`
+            );
+          }
+          const result = replayBodySchema.safeParse(payload);
+          if (!result.success) {
+            throw new Error("The body has no partner-event");
+          }
+          return postRequest(
+            unredact(url),
+            result.data["partner-event"].id,
+            payload
+          );
+        },
+        acceptAny,
+        signal
+      ),
+  };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "@jest/globals";
+import { HtmlConfigOption } from "./ats-types";
+import { searchConfigOptions, toOptionsUrl } from "./remote-options";
+
+describe("toOptionsUrl", () => {
+  it("resolves the options-source against the config endpoint", () => {
+    const url = new URL(
+      toOptionsUrl(
+        "https://ats.example.com/refapp/config?job_id=7&lang=sv&recruiter=a%40example.com&webhook_data=%7B%7D",
+        { "url": "options/cost-centre", "page-size": 20 },
+        { q: "Stock holm", page: 2 }
+      )
+    );
+    expect(url.origin + url.pathname).toBe(
+      "https://ats.example.com/refapp/options/cost-centre"
+    );
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      job_id: "7",
+      lang: "sv",
+      recruiter: "a@example.com",
+      q: "Stock holm",
+      page: "2",
+      page_size: "20",
+    });
+  });
+
+  it("keeps the parameters of the options-source url", () => {
+    const url = new URL(
+      toOptionsUrl(
+        "https://ats.example.com/config?lang=sv",
+        { url: "https://options.example.com/search?lang=en" },
+        { q: "", page: 1 }
+      )
+    );
+    expect(url.host).toBe("options.example.com");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      lang: "en",
+      page: "1",
+      page_size: "50",
+    });
+  });
+});
+
+describe("searchConfigOptions", () => {
+  const options: ReadonlyArray<HtmlConfigOption> = [
+    "Stockholm",
+    "Göteborg",
+    "Malmö",
+    "Stockholm Syd",
+    "Uppsala",
+  ].map((label, index) => ({ id: String(index), label }));
+
+  it("pages through all options without a search", () => {
+    expect(searchConfigOptions(options, { page: 2, page_size: 2 })).toEqual({
+      "options": [options[2], options[3]],
+      "has-more": true,
+      "total": 5,
+    });
+    expect(
+      searchConfigOptions(options, { page: 3, page_size: 2 })["has-more"]
+    ).toBe(false);
+  });
+
+  it("matches labels containing the search, ignoring case", () => {
+    expect(searchConfigOptions(options, { q: " STOCKHOLM " })).toEqual({
+      "options": [options[0], options[3]],
+      "has-more": false,
+      "total": 2,
+    });
+    expect(searchConfigOptions(options, { q: "malmö" }).options).toEqual([
+      options[2],
+    ]);
+  });
+
+  it("returns an empty page past the end", () => {
+    expect(searchConfigOptions(options, { page: 9 })).toEqual({
+      "options": [],
+      "has-more": false,
+      "total": 5,
+    });
+  });
+});
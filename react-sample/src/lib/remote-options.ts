@@ -0,0 +1,70 @@
+import {
+  AtsConfigOptionsPage,
+  AtsConfigOptionsQueryParams,
+  AtsConfigOptionsSource,
+  HtmlConfigOption,
+} from "./ats-types";
+
+export const defaultOptionsPageSize = 50;
+
+export type AtsConfigOptionsQuery = Readonly<{
+  q: string;
+  page: number;
+}>;
+
+// Context from the config call that is passed on to the options-source
+const forwardedConfigParams = ["job_id", "lang", "recruiter"] as const;
+
+/**
+ * The url to call for a page of options, resolved relative to the config
+ * endpoint and with the job_id, lang and recruiter from its query
+ */
+export const toOptionsUrl = (
+  configEndpoint: string,
+  source: AtsConfigOptionsSource,
+  { q, page }: AtsConfigOptionsQuery
+): string => {
+  const configUrl = new URL(configEndpoint);
+  const url = new URL(source.url, configUrl);
+  for (const name of forwardedConfigParams) {
+    const value = configUrl.searchParams.get(name);
+    if (value !== null && !url.searchParams.has(name)) {
+      url.searchParams.set(name, value);
+    }
+  }
+  if (q) {
+    url.searchParams.set("q", q);
+  }
+  url.searchParams.set("page", String(page));
+  url.searchParams.set(
+    "page_size",
+    String(source["page-size"] ?? defaultOptionsPageSize)
+  );
+  return url.toString();
+};
+
+/**
+ * Server side of an options-source: the page of options whose label contains
+ * the search text, ignoring case
+ */
+export const searchConfigOptions = (
+  options: ReadonlyArray<HtmlConfigOption>,
+  {
+    q = "",
+    page = 1,
+    page_size = defaultOptionsPageSize,
+  }: AtsConfigOptionsQueryParams
+): AtsConfigOptionsPage => {
+  const search = q.trim().toLocaleLowerCase();
+  const matching = search
+    ? options.filter((option) =>
+        option.label.toLocaleLowerCase().includes(search)
+      )
+    : options;
+  const start = (page - 1) * page_size;
+  return {
+    "options": matching.slice(start, start + page_size),
+    "has-more": start + page_size < matching.length,
+    "total": matching.length,
+  };
+};
@@ -0,0 +1,182 @@
+import * as _ from "lodash";
+import {
+  RefappExchange,
+  RefappReplayRequest,
+  secretPlaceholders,
+} from "./refapp-client";
+
+/**
+ * A history of the calls made by the Refapp client, recorded through its
+ * onExchange option with the secrets already redacted, so repeated submits
+ * can be compared, edited and sent again.
+ */
+
+export type RequestHistoryEntry = RefappExchange & Readonly<{ id: number }>;
+
+/**
+ * Older entries are dropped
+ */
+export const maxHistoryEntries = 100;
+
+/**
+ * The history with the exchange added first
+ */
+export const addHistoryEntry = (
+  history: ReadonlyArray<RequestHistoryEntry>,
+  exchange: RefappExchange
+): ReadonlyArray<RequestHistoryEntry> =>
+  [{ ...exchange, id: (history[0]?.id ?? 0) + 1 }, ...history].slice(
+    0,
+    maxHistoryEntries
+  );
+
+/**
+ * The body as JSON when it is JSON, otherwise as the text
+ */
+export const parseBody = (body: string | undefined): unknown => {
+  if (body === undefined || body === "") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch (_) {
+    return body;
+  }
+};
+
+/**
+ * The parts of an entry that are compared, shown and exported
+ */
+export type RequestFixture = Readonly<{
+  request: Readonly<{
+    method: string;
+    url: string;
+    headers: Readonly<Record<string, string>>;
+    body?: unknown;
+  }>;
+  response?: Readonly<{
+    status: number;
+    headers: Readonly<Record<string, string>>;
+    body?: unknown;
+  }>;
+}>;
+
+export const toRequestFixture = (
+  entry: RequestHistoryEntry
+): RequestFixture => ({
+  request: {
+    method: entry.method,
+    url: entry.url,
+    headers: entry.requestHeaders,
+    body: parseBody(entry.requestBody),
+  },
+  response:
+    entry.status === undefined
+      ? undefined
+      : {
+          status: entry.status,
+          headers: entry.responseHeaders,
+          body: parseBody(entry.responseBody),
+        },
+});
+
+/**
+ * The entry as a JSON fixture, e.g. for a mock in a test
+ */
+export const toJsonFixture = (entry: RequestHistoryEntry) =>
+  JSON.stringify(toRequestFixture(entry), undefined, 2);
+
+// Set in the shell before running the command
+const secretVariables: ReadonlyArray<readonly [string, string]> = [
+  [secretPlaceholders.atsSecret, "$REFAPP_ATS_SECRET"],
+  [secretPlaceholders.customerSecret, "$REFAPP_CUSTOMER_SECRET"],
+];
+
+/**
+ * Double quoted, with the secret placeholders as shell variables
+ */
+const shellQuote = (text: string) =>
+  `"${secretVariables.reduce(
+    (quoted, [placeholder, variable]) =>
+      quoted.split(placeholder).join(variable),
+    text.replace(/[\\"$`]/g, "\\$&")
+  )}"`;
+
+/**
+ * The request as a curl command using $REFAPP_ATS_SECRET and
+ * $REFAPP_CUSTOMER_SECRET for the secrets. The X-Refapp-Signature header is
+ * copied as recorded, so it is only accepted within the signature tolerance.
+ */
+export const toCurlCommand = (entry: RequestHistoryEntry) =>
+  [
+    `curl -X ${entry.method} ${shellQuote(entry.url)}`,
+    ...Object.entries(entry.requestHeaders).map(
+      ([name, value]) => `  -H ${shellQuote(`${name}: ${value}`)}`
+    ),
+    ...(entry.requestBody !== undefined
+      ? [`  --data-raw ${shellQuote(entry.requestBody)}`]
+      : []),
+  ].join(" \\\n");
+
+/**
+ * The request of the entry, to edit and send again with replayRequest
+ */
+export const toReplayRequest = (
+  entry: RequestHistoryEntry
+): RefappReplayRequest => ({
+  method: entry.method === "POST" ? "POST" : "GET",
+  url: entry.url,
+  body: entry.requestBody,
+});
+
+export type HistoryDifference = Readonly<{
+  /**
+   * E.g. request.body.partner-event.candidate.name
+   */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}>;
+
+const flatten = (
+  value: unknown,
+  path: string,
+  into: Record<string, unknown>
+) => {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flatten(item, `${path}[${index}]`, into));
+  } else if (_.isPlainObject(value) && !_.isEmpty(value)) {
+    Object.entries(value as object).forEach(([key, item]) =>
+      flatten(item, path ? `${path}.${key}` : key, into)
+    );
+  } else {
+    into[path] = value;
+  }
+  return into;
+};
+
+// Differ on every call, so they would only hide the differences that matter
+const ignoredPaths: ReadonlyArray<RegExp> = [
+  /^request\.headers\.x-refapp-signature$/,
+  /^response\.headers\.date$/,
+];
+
+/**
+ * The values that differ between two entries, by path in their fixtures
+ */
+export const diffHistoryEntries = (
+  before: RequestHistoryEntry,
+  after: RequestHistoryEntry
+): ReadonlyArray<HistoryDifference> => {
+  const beforeValues = flatten(toRequestFixture(before), "", {});
+  const afterValues = flatten(toRequestFixture(after), "", {});
+  return _.union(Object.keys(beforeValues), Object.keys(afterValues))
+    .filter((path) => !ignoredPaths.some((ignored) => ignored.test(path)))
+    .filter((path) => !_.isEqual(beforeValues[path], afterValues[path]))
+    .sort()
+    .map((path) => ({
+      path,
+      before: beforeValues[path],
+      after: afterValues[path],
+    }));
+};
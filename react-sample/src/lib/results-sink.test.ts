@@ -0,0 +1,27 @@
+/**
+ * @jest-environment ./src/test-environment.js
+ */
+import { describe, expect, it } from "@jest/globals";
+import { createResultsSink } from "./results-sink";
+
+describe("createResultsSink", () => {
+  const sink = createResultsSink();
+
+  it("reads the candidate id from the path", async () => {
+    const response = await sink(
+      new Request("http://localhost:4000/results/candidate%201")
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([]);
+  });
+
+  it("answers a malformed escape in the path with a 404", async () => {
+    const response = await sink(
+      new Request("http://localhost:4000/results/%E0")
+    );
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual(
+      expect.objectContaining({ code: "not-found" })
+    );
+  });
+});
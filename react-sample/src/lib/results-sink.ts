@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { candidateResultsSchema } from "./ats-types";
+import {
+  decodePathSegment,
+  errorResponse,
+  jsonResponse,
+  RequestHandler,
+  toErrorIssues,
+} from "./http-handlers";
+import { createSignatureVerifier, signatureHeader } from "./signatures";
+
+export const candidateResultsUpdateSchema = z.object({
+  /**
+   * ISO timestamp of when the update was received
+   */
+  receivedAt: z.string(),
+  results: candidateResultsSchema,
+});
+export type CandidateResultsUpdate = z.infer<
+  typeof candidateResultsUpdateSchema
+>;
+
+/**
+ * All updates received for a candidate, oldest first
+ */
+export const candidateResultsTimelineSchema = z.array(
+  candidateResultsUpdateSchema
+);
+export type CandidateResultsTimeline = z.infer<
+  typeof candidateResultsTimelineSchema
+>;
+
+export type ResultsSinkOptions = Readonly<{
+  /**
+   * When set, the Bearer token Refapp has been configured to send for the
+   * host of the update-url
+   */
+  bearerToken?: string;
+  /**
+   * When set, updates must be signed with this secret (the ATS secret)
+   */
+  signingSecret?: string;
+  path?: string;
+}>;
+
+/**
+ * Receives the PUT calls Refapp makes to the partner-result update-url
+ * whenever the candidate changes state. Use `${path}/${candidateId}` as the
+ * update-url; the updates for the candidate can then be read back with GET on
+ * the same url, or for all candidates with GET on the path itself.
+ */
+export const createResultsSink = ({
+  bearerToken,
+  signingSecret,
+  path = "/results",
+}: ResultsSinkOptions = {}): RequestHandler => {
+  const timelines = new Map<string, CandidateResultsTimeline>();
+  const verifySignature =
+    signingSecret !== undefined
+      ? createSignatureVerifier(signingSecret)
+      : undefined;
+
+  const handleUpdate = async (
+    request: Request,
+    candidateId: string
+  ): Promise<Response> => {
+    if (
+      bearerToken !== undefined &&
+      request.headers.get("Authorization") !== `Bearer ${bearerToken}`
+    ) {
+      return errorResponse(401, "unauthorized", "Invalid bearer token");
+    }
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (_) {
+      return errorResponse(
+        400,
+        "invalid-json",
+        "The request body is not valid JSON"
+      );
+    }
+    if (verifySignature) {
+      const id = z.object({ id: z.string() }).safeParse(body).data?.id;
+      const verification = await verifySignature(
+        request.headers.get(signatureHeader),
+        id,
+        body
+      );
+      if (verification.valid === false) {
+        return errorResponse(
+          401,
+          "invalid-signature",
+          `Invalid signature (${verification.reason})`
+        );
+      }
+    }
+    const results = candidateResultsSchema.safeParse(body);
+    if (!results.success) {
+      return errorResponse(
+        400,
+        "invalid-results",
+        "Invalid candidate results",
+        toErrorIssues(results.error)
+      );
+    }
+    const timeline = [
+      ...(timelines.get(candidateId) ?? []),
+      { receivedAt: new Date().toISOString(), results: results.data },
+    ];
+    timelines.set(candidateId, timeline);
+    return jsonResponse(200, { received: timeline.length });
+  };
+
+  return async (request: Request): Promise<Response> => {
+    const { pathname } = new URL(request.url);
+    if (pathname === path && request.method === "GET") {
+      return jsonResponse(200, Object.fromEntries(timelines));
+    }
+    const prefix = `${path}/`;
+    const candidateId = pathname.startsWith(prefix)
+      ? decodePathSegment(pathname.slice(prefix.length))
+      : "";
+    if (!candidateId || candidateId.includes("/")) {
+      return errorResponse(404, "not-found", `No route for ${pathname}`);
+    }
+    switch (request.method) {
+      case "PUT":
+        return handleUpdate(request, candidateId);
+      case "GET":
+        return jsonResponse(200, timelines.get(candidateId) ?? []);
+    }
+    return errorResponse(405, "method-not-allowed", "Use PUT to send updates");
+  };
+};
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment ./src/test-environment.js
+ */
+import { describe, expect, it } from "@jest/globals";
+import {
+  canonicalJson,
+  createSignatureVerifier,
+  signPayload,
+  verifySignature,
+} from "./signatures";
+
+const secret = "ats-secret";
+const body = { "partner-event": { id: "event-1", note: "Ünïcode" } };
+
+describe("canonicalJson", () => {
+  it("sorts keys and drops undefined values", () => {
+    expect(
+      canonicalJson({ b: [1, undefined], a: { d: undefined, c: "" } })
+    ).toBe('{"a":{"c":""},"b":[1,null]}');
+  });
+});
+
+describe("verifySignature", () => {
+  const now = 1_700_000_000;
+
+  it("accepts a signature of the same id and body", async () => {
+    const header = await signPayload({
+      secret,
+      id: "event-1",
+      body,
+      timestamp: now,
+    });
+    // Key order does not matter
+    const received = JSON.parse(
+      JSON.stringify({ "partner-event": { note: "Ünïcode", id: "event-1" } })
+    );
+    expect(
+      await verifySignature({
+        secret,
+        header,
+        id: "event-1",
+        body: received,
+        now,
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects a changed body, id or secret", async () => {
+    const header = await signPayload({
+      secret,
+      id: "event-1",
+      body,
+      timestamp: now,
+    });
+    const changed = { "partner-event": { id: "event-1", note: "changed" } };
+    expect(
+      await verifySignature({
+        secret,
+        header,
+        id: "event-1",
+        body: changed,
+        now,
+      })
+    ).toEqual({ valid: false, reason: "mismatch" });
+    expect(
+      await verifySignature({ secret, header, id: "event-2", body, now })
+    ).toEqual({ valid: false, reason: "mismatch" });
+    expect(
+      await verifySignature({
+        secret: "other",
+        header,
+        id: "event-1",
+        body,
+        now,
+      })
+    ).toEqual({ valid: false, reason: "mismatch" });
+  });
+
+  it("rejects missing, malformed and expired signatures", async () => {
+    const header = await signPayload({
+      secret,
+      id: "event-1",
+      body,
+      timestamp: now,
+    });
+    expect(
+      await verifySignature({ secret, header: null, id: "event-1", body, now })
+    ).toEqual({ valid: false, reason: "missing" });
+    expect(
+      await verifySignature({
+        secret,
+        header: "t=1,v1=abc",
+        id: "event-1",
+        body,
+        now,
+      })
+    ).toEqual({ valid: false, reason: "malformed" });
+    expect(
+      await verifySignature({
+        secret,
+        header,
+        id: "event-1",
+        body,
+        now: now + 301,
+      })
+    ).toEqual({ valid: false, reason: "expired" });
+  });
+});
+
+describe("createSignatureVerifier", () => {
+  it("rejects a signature seen before as replayed", async () => {
+    const verify = createSignatureVerifier(secret);
+    const header = await signPayload({ secret, id: "event-1", body });
+    expect(await verify(header, "event-1", body)).toEqual({ valid: true });
+    expect(await verify(header, "event-1", body)).toEqual({
+      valid: false,
+      reason: "replayed",
+    });
+  });
+
+  it("reports a signature seen before as repeated when accepted", async () => {
+    const verify = createSignatureVerifier(secret, { acceptRepeated: true });
+    const header = await signPayload({ secret, id: "event-1", body });
+    expect(await verify(header, "event-1", body)).toEqual({ valid: true });
+    expect(await verify(header, "event-1", body)).toEqual({
+      valid: true,
+      repeated: true,
+    });
+  });
+
+  it("compares the timestamp and signature rather than the header", async () => {
+    const verify = createSignatureVerifier(secret);
+    const header = await signPayload({ secret, id: "event-1", body });
+    const [timestamp, signature] = header.split(",");
+    expect(await verify(header, "event-1", body)).toEqual({ valid: true });
+    expect(
+      await verify(`${signature} , ${timestamp}`, "event-1", body)
+    ).toEqual({ valid: false, reason: "replayed" });
+  });
+
+  it("does not remember signatures that fail", async () => {
+    const verify = createSignatureVerifier(secret);
+    const header = await signPayload({ secret, id: "event-1", body });
+    expect(await verify(header, "event-2", body)).toEqual({
+      valid: false,
+      reason: "mismatch",
+    });
+    expect(await verify(header, "event-1", body)).toEqual({ valid: true });
+  });
+});
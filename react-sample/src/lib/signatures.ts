@@ -0,0 +1,239 @@
+/**
+ * Signing of partner event POSTs (ATS to Refapp) and update-url PUTs (Refapp
+ * to ATS) so the receiver can reject forged and replayed calls.
+ *
+ * The signature is sent in the X-Refapp-Signature header as
+ * `t=<timestamp>,v1=<signature>` where timestamp is in Unix seconds and
+ * signature is the hex encoded HMAC-SHA256, keyed with the ATS secret, of
+ *
+ * `<timestamp>.<id>.<canonical body>`
+ *
+ * id is the partner event "id" for POSTs and the partner result "id" for
+ * PUTs (the empty string when there is none). The canonical body is the JSON
+ * body serialised without whitespace, with object keys sorted by code unit
+ * and undefined values dropped, so that formatting and key order do not
+ * matter. Receivers reject timestamps outside the tolerance window (five
+ * minutes by default) and signatures they have already seen. A receiver that
+ * handles retries idempotently, e.g. by the partner event id, can choose to
+ * accept a signature seen before as a repeated call instead.
+ */
+
+export const signatureHeader = "X-Refapp-Signature";
+
+export const defaultToleranceSeconds = 5 * 60;
+
+export type SignatureVerification =
+  | Readonly<{
+      valid: true;
+      /**
+       * The same signature has already been accepted, so the call is a retry
+       * that must not be acted on twice. Only with acceptRepeated.
+       */
+      repeated?: boolean;
+    }>
+  | Readonly<{
+      valid: false;
+      reason: "missing" | "malformed" | "expired" | "mismatch" | "replayed";
+    }>;
+
+/**
+ * JSON with sorted keys and no whitespace
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? "null" : canonicalJson(item)))
+      .join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+const hmac = async (secret: string, message: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+};
+
+/**
+ * Compares without returning early so the time taken does not reveal how
+ * much of a forged signature is correct
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+};
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const signedContent = (timestamp: number, id: string, body: unknown) =>
+  `${timestamp}.${id}.${canonicalJson(body)}`;
+
+type SignOptions = Readonly<{
+  secret: string;
+  id: string | undefined;
+  /**
+   * The body as it will be sent, before JSON serialisation
+   */
+  body: unknown;
+  timestamp?: number;
+}>;
+
+/**
+ * Returns the value for the X-Refapp-Signature header
+ */
+export const signPayload = async ({
+  secret,
+  id,
+  body,
+  timestamp = nowInSeconds(),
+}: SignOptions): Promise<string> =>
+  `t=${timestamp},v1=${await hmac(
+    secret,
+    signedContent(timestamp, id ?? "", body)
+  )}`;
+
+const parseSignatureHeader = (header: string) => {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const index = part.indexOf("=");
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()];
+    })
+  );
+  const timestamp = Number(parts["t"]);
+  const signature = parts["v1"];
+  return Number.isInteger(timestamp) && /^[0-9a-f]{64}$/.test(signature ?? "")
+    ? { timestamp, signature }
+    : undefined;
+};
+
+type VerifyOptions = Readonly<{
+  secret: string;
+  header: string | null | undefined;
+  id: string | undefined;
+  /**
+   * The parsed JSON body as received, before any schema transforms
+   */
+  body: unknown;
+  toleranceSeconds?: number;
+  now?: number;
+}>;
+
+/**
+ * Checks the signature and timestamp but not whether it has been seen before,
+ * see createSignatureVerifier
+ */
+export const verifySignature = async ({
+  secret,
+  header,
+  id,
+  body,
+  toleranceSeconds = defaultToleranceSeconds,
+  now = nowInSeconds(),
+}: VerifyOptions): Promise<SignatureVerification> => {
+  if (!header) {
+    return { valid: false, reason: "missing" };
+  }
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return { valid: false, reason: "malformed" };
+  }
+  if (Math.abs(now - parsed.timestamp) > toleranceSeconds) {
+    return { valid: false, reason: "expired" };
+  }
+  const expected = await hmac(
+    secret,
+    signedContent(parsed.timestamp, id ?? "", body)
+  );
+  return timingSafeEqual(expected, parsed.signature)
+    ? { valid: true }
+    : { valid: false, reason: "mismatch" };
+};
+
+export type SignatureVerifierOptions = Readonly<{
+  /**
+   * Five minutes by default
+   */
+  toleranceSeconds?: number;
+  /**
+   * Report a signature that has already been accepted as repeated rather than
+   * rejecting it as replayed, for receivers that only act once on a retry
+   */
+  acceptRepeated?: boolean;
+}>;
+
+/**
+ * Verifies signatures and rejects the ones that have already been accepted
+ * within the tolerance window as replayed, or reports them as repeated with
+ * acceptRepeated. Signatures are compared by their timestamp and HMAC, so the
+ * spacing and order of the header parts do not matter.
+ */
+export const createSignatureVerifier = (
+  secret: string,
+  {
+    toleranceSeconds = defaultToleranceSeconds,
+    acceptRepeated = false,
+  }: SignatureVerifierOptions = {}
+) => {
+  // Accepted signatures and when they can be forgotten (Unix seconds)
+  const seen = new Map<string, number>();
+  return async (
+    header: string | null | undefined,
+    id: string | undefined,
+    body: unknown
+  ): Promise<SignatureVerification> => {
+    const now = nowInSeconds();
+    seen.forEach((expires, signature) => {
+      if (expires < now) {
+        seen.delete(signature);
+      }
+    });
+    const result = await verifySignature({
+      secret,
+      header,
+      id,
+      body,
+      toleranceSeconds,
+      now,
+    });
+    const parsed = header ? parseSignatureHeader(header) : undefined;
+    if (!result.valid || !parsed) {
+      return result;
+    }
+    const key = `${parsed.timestamp}.${parsed.signature}`;
+    if (seen.has(key)) {
+      return acceptRepeated
+        ? { valid: true, repeated: true }
+        : { valid: false, reason: "replayed" };
+    }
+    seen.set(key, now + 2 * toleranceSeconds);
+    return result;
+  };
+};
+
+export type SignatureVerifier = ReturnType<typeof createSignatureVerifier>;
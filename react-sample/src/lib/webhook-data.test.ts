@@ -0,0 +1,122 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtsConfigField } from "./ats-types";
+import {
+  fromWebhookData,
+  toWebhookData,
+  toWebhookDataErrors,
+} from "./webhook-data";
+
+const fields: ReadonlyArray<AtsConfigField> = [
+  { id: "intro", type: "paragraph", label: "Intro" },
+  { id: "notify", type: "checkbox", label: "Notify" },
+  {
+    id: "forms",
+    type: "multi-select",
+    label: "Forms",
+    options: [
+      { id: "a", label: "A" },
+      { id: "b", label: "B" },
+    ],
+  },
+  { id: "count", type: "number", label: "Count" },
+  { id: "cost-centre", type: "select", label: "Cost centre", value: 7 },
+  {
+    "id": "note",
+    "type": "text",
+    "label": "Note",
+    "visible-when": { field: "notify", equals: true },
+  },
+  { id: "locked", type: "text", label: "Locked", value: "x", disabled: true },
+];
+
+describe("toWebhookData", () => {
+  it("serialises checkboxes, multi-selects and numbers", () => {
+    expect(toWebhookData(fields, {})).toEqual({
+      "notify": false,
+      "forms": [],
+      "cost-centre": 7,
+    });
+    expect(
+      toWebhookData(fields, {
+        "notify": true,
+        "forms": ["b"],
+        "count": "3",
+        "cost-centre": "12",
+        "note": "Hello",
+      })
+    ).toEqual({
+      "notify": true,
+      "forms": ["b"],
+      "count": 3,
+      "cost-centre": 12,
+      "note": "Hello",
+    });
+  });
+
+  it("leaves out label, disabled and hidden fields", () => {
+    const data = toWebhookData(fields, {
+      intro: "ignored",
+      locked: "changed",
+      note: "Hidden",
+    });
+    expect(data).not.toHaveProperty("intro");
+    expect(data).not.toHaveProperty("locked");
+    expect(data).not.toHaveProperty("note");
+  });
+});
+
+describe("fromWebhookData", () => {
+  it("reverses toWebhookData", () => {
+    const edits = {
+      "notify": true,
+      "forms": ["a", "b"],
+      "count": "4",
+      "cost-centre": "12",
+      "note": "Hello",
+    };
+    const data = toWebhookData(fields, edits);
+    expect(fromWebhookData(fields, data)).toEqual({
+      "notify": true,
+      "forms": ["a", "b"],
+      "count": 4,
+      "cost-centre": 12,
+      "note": "Hello",
+    });
+    expect(toWebhookData(fields, fromWebhookData(fields, data))).toEqual(data);
+  });
+
+  it("reverses unset checkboxes and multi-selects", () => {
+    const data = toWebhookData(fields, {});
+    expect(fromWebhookData(fields, data)).toEqual({
+      "notify": false,
+      "forms": [],
+      "cost-centre": 7,
+    });
+    expect(toWebhookData(fields, fromWebhookData(fields, data))).toEqual(data);
+  });
+
+  it("ignores values for label, disabled and unknown fields", () => {
+    expect(
+      fromWebhookData(fields, {
+        intro: "x",
+        locked: "changed",
+        unknown: "x",
+        notify: "on",
+        forms: "a",
+      })
+    ).toEqual({ notify: true, forms: ["a"] });
+  });
+});
+
+describe("toWebhookDataErrors", () => {
+  it("keys the first issue of each field on its id", () => {
+    expect(
+      toWebhookDataErrors([
+        { path: ["partner-event", "webhook-data", "count"], message: "First" },
+        { path: ["partner-event", "webhook-data", "count"], message: "Second" },
+        { path: ["webhook_data", "forms"], message: "Forms" },
+        { path: ["partner-event", "candidate"], message: "Other" },
+      ])
+    ).toEqual({ count: "First", forms: "Forms" });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  AtsConfigField,
+  AtsConfigFieldValue,
+  AtsWebhookData,
+  RefappErrorIssue,
+} from "./ats-types";
+import {
+  AtsConfigEdits,
+  AtsInputConfigField,
+  getFieldValue,
+  isLabelField,
+} from "./config-values";
+import { getFieldState, getFieldStates } from "./field-conditions";
+import { assertIsNever } from "./typehelpers";
+
+/**
+ * Numbers are kept as numbers when that is what the config endpoint sent as
+ * the field's value
+ */
+const toNumberIfExpected = (
+  field: AtsConfigField,
+  value: string
+): AtsConfigFieldValue => {
+  if (typeof field.value !== "number" || value.trim() === "") {
+    return value;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : value;
+};
+
+const serializeValue = (
+  field: AtsInputConfigField,
+  value: AtsConfigFieldValue | undefined
+): AtsConfigFieldValue | undefined => {
+  switch (field.type) {
+    case "checkbox":
+      // An unchecked checkbox is false rather than missing
+      return value === true;
+    case "multi-select":
+      // No selected options is an empty array rather than missing
+      return Array.isArray(value) ? value : [];
+    case "number": {
+      if (value === undefined || value === "" || Array.isArray(value)) {
+        return undefined;
+      }
+      const number = Number(value);
+      return Number.isFinite(number) ? number : String(value);
+    }
+    case "select":
+    case "radio":
+    case "text":
+      return value === undefined || value === "" || Array.isArray(value)
+        ? undefined
+        : toNumberIfExpected(field, String(value));
+    case "textarea":
+    case "url":
+    case "date":
+      return value === undefined || value === "" || Array.isArray(value)
+        ? undefined
+        : String(value);
+  }
+  return assertIsNever(field.type);
+};
+
+/**
+ * Serialises the field values to the webhook-data sent with partner events
+ * (and as webhook_data when refetching the config). Checkboxes are booleans,
+ * multi-selects are arrays of option ids, number fields and values where the
+ * config sent a number are numbers, and label, disabled and hidden fields are
+ * left out.
+ */
+export const toWebhookData = (
+  fields: ReadonlyArray<AtsConfigField>,
+  edits: AtsConfigEdits
+): AtsWebhookData => {
+  const result: Record<string, AtsConfigFieldValue> = {};
+  const states = getFieldStates(fields, edits);
+  for (const field of fields) {
+    const { visible, enabled } = getFieldState(states, field);
+    // Label fields are only informational and disabled fields cannot be
+    // changed by the user
+    if (isLabelField(field) || field.disabled || !visible || !enabled) {
+      continue;
+    }
+    const value = serializeValue(field, getFieldValue(field, edits));
+    if (value !== undefined) {
+      result[field.id] = value;
+    }
+  }
+  return result;
+};
+
+const deserializeValue = (
+  field: AtsInputConfigField,
+  value: AtsConfigFieldValue
+): AtsConfigFieldValue => {
+  switch (field.type) {
+    case "checkbox":
+      // Earlier versions posted the form data, where a checked checkbox is "on"
+      return value === true || value === "true" || value === "on";
+    case "multi-select":
+      return Array.isArray(value) ? value : [String(value)];
+    case "select":
+    case "radio":
+    case "text":
+    case "textarea":
+    case "url":
+    case "number":
+    case "date":
+      return typeof value === "number" ? value : String(value);
+  }
+  return assertIsNever(field.type);
+};
+
+/**
+ * The reverse of toWebhookData: turns webhook-data back into field values
+ * that can be shown in the config UI. Values for fields that are not in the
+ * config, or are not submitted, are ignored.
+ */
+export const fromWebhookData = (
+  fields: ReadonlyArray<AtsConfigField>,
+  data: AtsWebhookData
+): AtsConfigEdits => {
+  const result: Record<string, AtsConfigFieldValue> = {};
+  for (const field of fields) {
+    // Label fields are only informational and disabled fields cannot be
+    // changed by the user
+    if (isLabelField(field) || field.disabled) {
+      continue;
+    }
+    if (Object.prototype.hasOwnProperty.call(data, field.id)) {
+      result[field.id] = deserializeValue(field, data[field.id]);
+    } else if (field.type === "checkbox") {
+      result[field.id] = false;
+    } else if (field.type === "multi-select") {
+      result[field.id] = [];
+    }
+  }
+  return result;
+};
+
+/**
+ * The message of the first issue about each webhook-data value in a Refapp
+ * error response, keyed on field id. Issues about the webhook_data query
+ * parameter of a refetch are included.
+ */
+export const toWebhookDataErrors = (
+  issues: ReadonlyArray<RefappErrorIssue>
+): Readonly<Record<string, string>> => {
+  const errors: Record<string, string> = {};
+  for (const { path, message } of issues) {
+    const index = path.findIndex(
+      (key) => key === "webhook-data" || key === "webhook_data"
+    );
+    const fieldId = index >= 0 ? path[index + 1] : undefined;
+    if (typeof fieldId === "string" && !(fieldId in errors)) {
+      errors[fieldId] = message;
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,26 @@
+const NodeEnvironment = require("jest-environment-node");
+
+/**
+ * The Node environment of Jest 27 with the Fetch API and Web Crypto globals
+ * of Node 18 and later, which the lib modules use like a browser does.
+ * Test files opt in with a @jest-environment docblock.
+ */
+class FetchEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    Object.assign(this.global, {
+      fetch,
+      Request,
+      Response,
+      Headers,
+      FormData,
+      Blob,
+      ReadableStream,
+      DOMException,
+      crypto,
+      structuredClone,
+    });
+  }
+}
+
+module.exports = FetchEnvironment;